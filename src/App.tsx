@@ -2,8 +2,23 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Dashboard } from './components/Dashboard';
 import { ServiceForm } from './components/ServiceForm';
+import { ServicesScreen } from './components/ServicesScreen';
+import { AgendaScreen } from './components/AgendaScreen';
+import { ReceiptScreen } from './components/ReceiptScreen';
+import { MeasurementsScreen } from './components/MeasurementsScreen';
+import { CatalogScreen } from './components/CatalogScreen';
+import { ExpensesScreen } from './components/ExpensesScreen';
+import { MaterialsScreen } from './components/MaterialsScreen';
 import { ClientsScreen } from './components/ClientsScreen';
+import { ClientDetailScreen } from './components/ClientDetailScreen';
+import { ClientFormScreen } from './components/ClientFormScreen';
+import { DuplicatesScreen } from './components/DuplicatesScreen';
+import { ClientImportScreen } from './components/ClientImportScreen';
+import { CampaignsScreen } from './components/CampaignsScreen';
 import { CounterScreen } from './components/CounterScreen';
+import { PieceRatesScreen } from './components/PieceRatesScreen';
+import { CounterStatementScreen } from './components/CounterStatementScreen';
+import { CounterHistoryScreen } from './components/CounterHistoryScreen';
 import { BottomNavigation } from './components/BottomNavigation';
 import { AuthScreen } from './components/AuthScreen';
 import { useSupabase } from './hooks/useSupabase';
@@ -33,8 +48,25 @@ function App(): JSX.Element {
           <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/service" element={<ServiceForm />} />
+            <Route path="/service/:id" element={<ServiceForm />} />
+            <Route path="/service/:id/receipt" element={<ReceiptScreen />} />
+            <Route path="/services" element={<ServicesScreen />} />
+            <Route path="/agenda" element={<AgendaScreen />} />
             <Route path="/counter" element={<CounterScreen />} />
+            <Route path="/counter/rates" element={<PieceRatesScreen />} />
+            <Route path="/counter/history" element={<CounterHistoryScreen />} />
+            <Route path="/counter/:id/statement" element={<CounterStatementScreen />} />
+            <Route path="/catalog" element={<CatalogScreen />} />
+            <Route path="/expenses" element={<ExpensesScreen />} />
+            <Route path="/materials" element={<MaterialsScreen />} />
             <Route path="/clients" element={<ClientsScreen />} />
+            <Route path="/clients/new" element={<ClientFormScreen />} />
+            <Route path="/clients/duplicates" element={<DuplicatesScreen />} />
+            <Route path="/clients/import" element={<ClientImportScreen />} />
+            <Route path="/clients/:id" element={<ClientDetailScreen />} />
+            <Route path="/clients/:id/edit" element={<ClientFormScreen />} />
+            <Route path="/clients/:id/measurements" element={<MeasurementsScreen />} />
+            <Route path="/campaigns" element={<CampaignsScreen />} />
           </Routes>
         </div>
         <BottomNavigation />
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, AlertTriangle, CalendarDays } from 'lucide-react';
+import { useServices } from '../hooks/useSupabase';
+import { Service } from '../lib/supabase';
+import { getServiceStatusOption } from '../lib/serviceStatus';
+import {
+  toDateKey,
+  formatDateKey,
+  addDays,
+  startOfWeek,
+  startOfMonth,
+  isOverdue
+} from '../lib/dates';
+
+type AgendaView = 'day' | 'week' | 'month';
+
+const viewOptions: { value: AgendaView; label: string }[] = [
+  { value: 'day', label: 'Dia' },
+  { value: 'week', label: 'Semana' },
+  { value: 'month', label: 'Mês' }
+];
+
+const weekDayLabels = ['S', 'T', 'Q', 'Q', 'S', 'S', 'D'];
+
+export const AgendaScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { services, loading } = useServices();
+  const [view, setView] = useState<AgendaView>('week');
+  const [anchorDate, setAnchorDate] = useState(new Date());
+
+  const todayKey = toDateKey(new Date());
+
+  const servicesByDate = services.reduce<Record<string, Service[]>>((groups, service) => {
+    if (service.delivery_date) {
+      (groups[service.delivery_date] = groups[service.delivery_date] || []).push(service);
+    }
+    return groups;
+  }, {});
+
+  const overdueServices = services
+    .filter(service => isOverdue(service, todayKey))
+    .sort((a, b) => a.delivery_date!.localeCompare(b.delivery_date!));
+
+  // Days covered by the current view
+  const getVisibleDays = () => {
+    if (view === 'day') return [anchorDate];
+    if (view === 'week') {
+      const start = startOfWeek(anchorDate);
+      return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+    }
+    const start = startOfMonth(anchorDate);
+    const daysInMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+    return Array.from({ length: daysInMonth }, (_, i) => addDays(start, i));
+  };
+
+  const visibleDays = getVisibleDays();
+
+  const handleNavigate = (direction: number) => {
+    if (view === 'day') setAnchorDate(addDays(anchorDate, direction));
+    if (view === 'week') setAnchorDate(addDays(anchorDate, direction * 7));
+    if (view === 'month') setAnchorDate(new Date(anchorDate.getFullYear(), anchorDate.getMonth() + direction, 1));
+  };
+
+  const getPeriodLabel = () => {
+    if (view === 'day') {
+      return anchorDate.toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: 'long' });
+    }
+    if (view === 'week') {
+      const first = visibleDays[0];
+      const last = visibleDays[visibleDays.length - 1];
+      return `${first.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })} - ${last.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}`;
+    }
+    return anchorDate.toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+  };
+
+  const renderService = (service: Service) => {
+    const overdue = isOverdue(service, todayKey);
+    const status = getServiceStatusOption(service.status);
+
+    return (
+      <button
+        key={service.id}
+        onClick={() => navigate(`/service/${service.id}`)}
+        className={`w-full rounded-xl p-3 text-left shadow-sm transition-shadow hover:shadow-md ${
+          overdue ? 'bg-red-50 border border-red-200' : 'bg-white'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex-1 min-w-0">
+            <p className={`font-bold ${overdue ? 'text-red-700' : 'text-gray-800'}`}>{service.client_name}</p>
+            <p className={`text-sm truncate ${overdue ? 'text-red-600' : 'text-gray-600'}`}>{service.description}</p>
+          </div>
+          <span className={`px-2 py-1 rounded-full text-xs text-white ml-3 ${overdue ? 'bg-red-500' : status.color}`}>
+            {overdue ? 'Atrasado' : status.label}
+          </span>
+        </div>
+      </button>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando agenda...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4 sticky top-0 z-10 space-y-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800">Agenda de Entregas</h1>
+        </div>
+
+        {/* View Toggle */}
+        <div className="flex bg-gray-100 rounded-xl p-1">
+          {viewOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setView(option.value)}
+              className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                view === option.value
+                  ? 'bg-green-500 text-white shadow-sm'
+                  : 'text-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Period Navigation */}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => handleNavigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setAnchorDate(new Date())}
+            className="font-semibold text-gray-800 capitalize"
+            title="Voltar para hoje"
+          >
+            {getPeriodLabel()}
+          </button>
+          <button
+            onClick={() => handleNavigate(1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Overdue */}
+        {overdueServices.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-3"
+          >
+            <h3 className="text-lg font-bold text-red-600 flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              Atrasados ({overdueServices.length})
+            </h3>
+            {overdueServices.map((service) => (
+              <div key={service.id} className="space-y-1">
+                <p className="text-xs text-red-500">Entrega era {formatDateKey(service.delivery_date!)}</p>
+                {renderService(service)}
+              </div>
+            ))}
+          </motion.div>
+        )}
+
+        {/* Month Grid */}
+        {view === 'month' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl p-4 shadow-sm"
+          >
+            <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-2">
+              {weekDayLabels.map((day, index) => (
+                <span key={index}>{day}</span>
+              ))}
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {Array.from({ length: (visibleDays[0].getDay() + 6) % 7 }, (_, i) => (
+                <div key={`empty-${i}`} />
+              ))}
+              {visibleDays.map((day) => {
+                const dateKey = toDateKey(day);
+                const dayServices = servicesByDate[dateKey] || [];
+                const hasOverdue = dayServices.some(service => isOverdue(service, todayKey));
+
+                return (
+                  <button
+                    key={dateKey}
+                    onClick={() => {
+                      setAnchorDate(day);
+                      setView('day');
+                    }}
+                    className={`aspect-square rounded-lg flex flex-col items-center justify-center text-sm transition-colors ${
+                      dateKey === todayKey ? 'ring-2 ring-green-500' : ''
+                    } ${dayServices.length > 0 ? 'bg-green-50 hover:bg-green-100' : 'hover:bg-gray-50'}`}
+                  >
+                    <span className="text-gray-800">{day.getDate()}</span>
+                    {dayServices.length > 0 && (
+                      <span className={`text-xs font-bold ${hasOverdue ? 'text-red-600' : 'text-green-600'}`}>
+                        {dayServices.length}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+
+        {/* Day and Week Lists */}
+        {view !== 'month' && visibleDays.map((day, index) => {
+          const dateKey = toDateKey(day);
+          const dayServices = servicesByDate[dateKey] || [];
+
+          if (view === 'week' && dayServices.length === 0) return null;
+
+          return (
+            <motion.div
+              key={dateKey}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="space-y-2"
+            >
+              {view === 'week' && (
+                <h3 className={`font-bold capitalize ${dateKey === todayKey ? 'text-green-600' : 'text-gray-800'}`}>
+                  {day.toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: '2-digit' })}
+                </h3>
+              )}
+              {dayServices.map(renderService)}
+            </motion.div>
+          );
+        })}
+
+        {view !== 'month' && visibleDays.every(day => !servicesByDate[toDateKey(day)]) && (
+          <div className="text-center py-8">
+            <CalendarDays className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Nenhuma entrega neste período</p>
+            <p className="text-gray-400 text-sm">Defina a data de entrega ao cadastrar um serviço</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
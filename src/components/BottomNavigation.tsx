@@ -1,6 +1,6 @@
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Home, Plus, Users, Package } from 'lucide-react';
+import { Home, Plus, Users, Package, ClipboardList } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 export const BottomNavigation: React.FC = () => {
@@ -9,7 +9,8 @@ export const BottomNavigation: React.FC = () => {
 
   const navItems = [
     { path: '/', icon: Home, label: 'Dashboard' },
-    { path: '/service', icon: Plus, label: 'Serviço' },
+    { path: '/services', icon: ClipboardList, label: 'Serviços' },
+    { path: '/service', icon: Plus, label: 'Novo' },
     { path: '/counter', icon: Package, label: 'Contador' },
     { path: '/clients', icon: Users, label: 'Clientes' }
   ];
@@ -17,7 +18,7 @@ export const BottomNavigation: React.FC = () => {
   const activeIndex = navItems.findIndex(item => item.path === location.pathname);
 
   return (
-    <div className="fixed bottom-0 left-1/2 transform -translate-x-1/2 w-full max-w-md">
+    <div className="fixed bottom-0 left-1/2 transform -translate-x-1/2 w-full max-w-md print:hidden">
       {/* Ilha Dinâmica */}
       <div className="relative bg-white mx-4 mb-4 rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
         {/* Indicador Dinâmico */}
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Cake, UserCheck, MessageCircle, CheckCircle } from 'lucide-react';
+import { useClients, useClientContacts, useProfile, recordClientContact } from '../hooks/useSupabase';
+import { Client, ClientContact } from '../lib/supabase';
+import {
+  CONTACT_COOLDOWN_DAYS,
+  getReactivationCandidates,
+  getBirthdaysThisWeek,
+  getLastContact,
+  getDaysSinceContact
+} from '../lib/campaigns';
+import { getDaysSinceLastService, defaultSegmentSettings } from '../lib/segments';
+import { getMessageTemplate, fillTemplate } from '../lib/messages';
+import { getWhatsAppUrl } from '../lib/phone';
+import { formatDateKey } from '../lib/dates';
+
+export const CampaignsScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { clients, loading } = useClients();
+  const { contacts, refetch: refetchContacts } = useClientContacts();
+  const { profile } = useProfile();
+  const [inactiveDays, setInactiveDays] = useState(String(defaultSegmentSettings.segment_at_risk_days));
+
+  // Start from the "em risco" rule of the client segments
+  useEffect(() => {
+    if (profile) setInactiveDays(String(profile.segment_at_risk_days));
+  }, [profile]);
+
+  const birthdays = getBirthdaysThisWeek(clients);
+  const reactivation = getReactivationCandidates(clients, parseInt(inactiveDays) || 0);
+
+  const handleSend = async (client: Client, kind: ClientContact['kind'], url: string, recentlyContacted: boolean) => {
+    if (recentlyContacted && !confirm(`${client.name} recebeu uma mensagem há menos de ${CONTACT_COOLDOWN_DAYS} dias. Enviar mesmo assim?`)) return;
+
+    window.open(url, '_blank');
+
+    try {
+      await recordClientContact(client.id, kind);
+      refetchContacts();
+    } catch (error) {
+      console.error('Erro ao registrar contato:', error);
+      alert('A mensagem foi aberta, mas não foi possível registrar o contato.');
+    }
+  };
+
+  const renderClient = (client: Client, kind: ClientContact['kind'], detail: string, index: number) => {
+    const message = fillTemplate(getMessageTemplate(profile, kind), { nome: client.name });
+    const url = getWhatsAppUrl(client.phone, message);
+    // Birthdays only skip a client already congratulated; reactivation skips any recent message
+    const lastContact = getLastContact(contacts, client.id, kind === 'birthday' ? 'birthday' : undefined);
+    const daysSinceContact = getDaysSinceContact(lastContact);
+    const recentlyContacted = daysSinceContact !== null && daysSinceContact < CONTACT_COOLDOWN_DAYS;
+
+    return (
+      <motion.div
+        key={client.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className={`bg-white rounded-xl p-4 shadow-sm space-y-2 ${recentlyContacted ? 'opacity-60' : ''}`}
+      >
+        <div className="flex items-center justify-between">
+          <button onClick={() => navigate(`/clients/${client.id}`)} className="text-left min-w-0">
+            <p className="font-semibold text-gray-800 truncate">{client.name}</p>
+            <p className="text-gray-500 text-xs">{detail}</p>
+          </button>
+          <button
+            onClick={() => url && handleSend(client, kind, url, recentlyContacted)}
+            disabled={!url}
+            title={url ? 'Enviar pelo WhatsApp' : 'Cliente sem WhatsApp cadastrado'}
+            className="p-2 bg-green-500 text-white rounded-full hover:bg-green-600 transition-colors ml-2 disabled:opacity-40"
+          >
+            <MessageCircle className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-gray-600 text-sm bg-gray-50 rounded-lg p-2">{message}</p>
+        <p className={`text-xs ${recentlyContacted ? 'text-orange-600 flex items-center' : 'text-gray-400'}`}>
+          {recentlyContacted && <CheckCircle className="w-3 h-3 mr-1" />}
+          {lastContact
+            ? `Último contato: ${new Date(lastContact.contacted_at).toLocaleDateString('pt-BR')} (há ${daysSinceContact} dias)`
+            : 'Nunca contatada por campanha'}
+        </p>
+      </motion.div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando clientes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-800">Campanhas</h1>
+            <p className="text-gray-600 text-sm">Aniversários e clientes para reativar</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Birthdays */}
+        <div className="space-y-3">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <Cake className="w-5 h-5 mr-2 text-pink-500" />
+            Aniversariantes da semana ({birthdays.length})
+          </h3>
+          {birthdays.length > 0 ? (
+            birthdays.map((client, index) => renderClient(
+              client,
+              'birthday',
+              formatDateKey(client.birthday!, { day: '2-digit', month: 'long' }),
+              index
+            ))
+          ) : (
+            <p className="text-gray-500 text-sm">Nenhum aniversário nesta semana.</p>
+          )}
+        </div>
+
+        {/* Reactivation */}
+        <div className="space-y-3">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <UserCheck className="w-5 h-5 mr-2 text-orange-500" />
+            Para reativar ({reactivation.length})
+          </h3>
+          <label className="flex items-center text-sm text-gray-600">
+            Sem serviço há mais de
+            <input
+              type="number"
+              min="1"
+              value={inactiveDays}
+              onChange={(e) => setInactiveDays(e.target.value)}
+              className="w-16 p-1 mx-2 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            dias
+          </label>
+          {reactivation.length > 0 ? (
+            reactivation.map((client, index) => renderClient(
+              client,
+              'reactivation',
+              `${getDaysSinceLastService(client)} dias sem serviço · R$ ${client.total_spent.toFixed(2)}`,
+              index
+            ))
+          ) : (
+            <p className="text-gray-500 text-sm">Nenhuma cliente sem serviço nesse período.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Tag, Clock, Trash2, Check, Package } from 'lucide-react';
+import {
+  useServiceCatalog,
+  useProfile,
+  saveCatalogItem,
+  deleteCatalogItem,
+  updateProfile
+} from '../hooks/useSupabase';
+import { PricingSettingsCard } from './PricingSettingsCard';
+import { MessageTemplatesCard } from './MessageTemplatesCard';
+import { ServiceCatalogItem } from '../lib/supabase';
+import { formatMinutes } from '../lib/dates';
+
+interface CatalogFormData {
+  name: string;
+  defaultPrice: string;
+  estimatedMinutes: string;
+}
+
+const emptyForm: CatalogFormData = { name: '', defaultPrice: '', estimatedMinutes: '' };
+
+export const CatalogScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { catalog, loading, refetch } = useServiceCatalog();
+  const { profile, refetch: refetchProfile } = useProfile();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CatalogFormData>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [quickAmounts, setQuickAmounts] = useState('');
+
+  useEffect(() => {
+    if (profile) {
+      setQuickAmounts(profile.counter_quick_amounts.join(', '));
+    }
+  }, [profile]);
+
+  const handleNew = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (item: ServiceCatalogItem) => {
+    setFormData({
+      name: item.name,
+      defaultPrice: String(item.default_price),
+      estimatedMinutes: item.estimated_minutes ? String(item.estimated_minutes) : ''
+    });
+    setEditingId(item.id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name || !formData.defaultPrice) {
+      alert('Informe o nome e o preço do serviço.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveCatalogItem({
+        name: formData.name.trim(),
+        default_price: parseFloat(formData.defaultPrice),
+        estimated_minutes: parseInt(formData.estimatedMinutes) || null,
+        position: editingId ? undefined : catalog.length
+      }, editingId ?? undefined);
+
+      setShowForm(false);
+      setEditingId(null);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao salvar serviço da tabela:', error);
+      alert('Erro ao salvar. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (itemId: string) => {
+    if (!confirm('Remover este serviço da tabela de preços?')) return;
+
+    try {
+      await deleteCatalogItem(itemId);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao remover serviço da tabela:', error);
+      alert('Erro ao remover. Tente novamente.');
+    }
+  };
+
+  const handleSaveQuickAmounts = async () => {
+    const amounts = quickAmounts
+      .split(/[,\s]+/)
+      .map(value => parseInt(value))
+      .filter(value => value > 0);
+
+    try {
+      await updateProfile({ counter_quick_amounts: amounts });
+      refetchProfile();
+    } catch (error) {
+      console.error('Erro ao salvar atalhos:', error);
+      alert('Erro ao salvar atalhos. Tente novamente.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800 flex-1">Tabela de Preços</h1>
+          {!showForm && (
+            <button
+              onClick={handleNew}
+              className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
+              title="Novo serviço na tabela"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Catalog Form */}
+        {showForm && (
+          <motion.form
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            onSubmit={handleSubmit}
+            className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+          >
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                <Tag className="w-4 h-4 inline mr-2" />
+                Serviço *
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Ex: Barra de calça"
+                className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                autoFocus
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Preço (R$) *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.defaultPrice}
+                  onChange={(e) => setFormData(prev => ({ ...prev, defaultPrice: e.target.value }))}
+                  placeholder="0,00"
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Tempo (min)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.estimatedMinutes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, estimatedMinutes: e.target.value }))}
+                  placeholder="Ex: 30"
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 p-3 rounded-xl font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-green-500 text-white p-3 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-5 h-5" />
+                <span>{saving ? 'Salvando...' : 'Salvar'}</span>
+              </button>
+            </div>
+          </motion.form>
+        )}
+
+        {/* Catalog List */}
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-gray-200 animate-pulse rounded-xl h-16"></div>
+            ))}
+          </div>
+        ) : catalog.length > 0 ? (
+          <div className="space-y-3">
+            {catalog.map((item, index) => (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="bg-white rounded-xl p-4 shadow-sm flex items-center justify-between"
+              >
+                <button onClick={() => handleEdit(item)} className="flex-1 text-left">
+                  <p className="font-bold text-gray-800">{item.name}</p>
+                  {item.estimated_minutes && (
+                    <p className="text-gray-500 text-sm flex items-center">
+                      <Clock className="w-3 h-3 mr-1" />
+                      {formatMinutes(item.estimated_minutes)}
+                    </p>
+                  )}
+                </button>
+                <span className="font-semibold text-green-600 mr-2">R$ {item.default_price.toFixed(2)}</span>
+                <button
+                  onClick={() => handleDelete(item.id)}
+                  className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Remover"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </motion.div>
+            ))}
+          </div>
+        ) : !showForm && (
+          <div className="text-center py-8">
+            <Tag className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Sua tabela de preços está vazia</p>
+            <p className="text-gray-400 text-sm">Cadastre os serviços que você faz e seus preços</p>
+          </div>
+        )}
+
+        {/* Pricing Calculator Settings */}
+        <PricingSettingsCard profile={profile} onSaved={refetchProfile} />
+
+        {/* WhatsApp Message Templates */}
+        <MessageTemplatesCard profile={profile} onSaved={refetchProfile} />
+
+        {/* Counter Quick Amounts */}
+        <div className="bg-white rounded-2xl p-6 shadow-sm space-y-3">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <Package className="w-5 h-5 mr-2 text-green-500" />
+            Atalhos do Contador
+          </h3>
+          <p className="text-gray-500 text-sm">Quantidades rápidas separadas por vírgula</p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={quickAmounts}
+              onChange={(e) => setQuickAmounts(e.target.value)}
+              placeholder="Ex: 5, 10, 15, 20"
+              className="flex-1 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            <button
+              onClick={handleSaveQuickAmounts}
+              className="px-4 bg-green-500 text-white rounded-xl font-semibold hover:bg-green-600 transition-colors"
+            >
+              Salvar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Pencil,
+  Plus,
+  Ruler,
+  MessageCircle,
+  Phone,
+  Mail,
+  ClipboardList,
+  Package,
+  ChevronRight,
+  MapPin,
+  Cake,
+  ArrowUp,
+  ArrowDown
+} from 'lucide-react';
+import { useClient, useProfile } from '../hooks/useSupabase';
+import { getClientStats } from '../lib/clientStats';
+import { getOutstandingBalance } from '../lib/payments';
+import { getServiceStatusOption } from '../lib/serviceStatus';
+import { formatDateKey, toDateKey } from '../lib/dates';
+import { formatPhone } from '../lib/phone';
+import { getClientWhatsAppUrl } from '../lib/messages';
+
+export const ClientDetailScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { id: clientId } = useParams<{ id: string }>();
+  const { client, services, payments, counter, history, loading } = useClient(clientId);
+  const { profile } = useProfile();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando cliente...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-500">Cliente não encontrado</p>
+          <button
+            onClick={() => navigate('/clients')}
+            className="text-green-600 text-sm font-medium mt-2"
+          >
+            Voltar aos clientes
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const stats = getClientStats(services, payments);
+
+  const isBirthday = client.birthday?.slice(5) === toDateKey(new Date()).slice(5);
+  const whatsAppUrl = getClientWhatsAppUrl(profile, isBirthday ? 'birthday' : 'general', client);
+
+  const statCards = [
+    { label: 'Total gasto', value: `R$ ${stats.totalSpent.toFixed(2)}` },
+    { label: 'Ticket médio', value: `R$ ${stats.averageTicket.toFixed(2)}` },
+    {
+      label: 'Frequência',
+      value: stats.visitFrequencyDays !== null ? `a cada ${Math.round(stats.visitFrequencyDays)} dias` : `${stats.visitCount} visita${stats.visitCount === 1 ? '' : 's'}`
+    },
+    { label: 'Saldo em aberto', value: `R$ ${stats.openBalance.toFixed(2)}`, highlight: stats.openBalance > 0 }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/clients')}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold text-gray-800 truncate">{client.name}</h1>
+            <p className="text-gray-600 text-sm">
+              Cliente desde {new Date(client.created_at).toLocaleDateString('pt-BR')}
+            </p>
+          </div>
+          <button
+            onClick={() => navigate(`/clients/${client.id}/edit`)}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+            title="Editar cliente"
+          >
+            <Pencil className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Contact */}
+        {(client.phone || client.email || client.address || client.birthday || client.notes) && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl p-6 shadow-sm space-y-2"
+          >
+            {client.phone && (
+              <a href={`tel:${client.phone}`} className="flex items-center text-gray-700">
+                <Phone className="w-4 h-4 mr-2 text-gray-400" />
+                {formatPhone(client.phone)}
+              </a>
+            )}
+            {client.email && (
+              <a href={`mailto:${client.email}`} className="flex items-center text-gray-700">
+                <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                {client.email}
+              </a>
+            )}
+            {client.address && (
+              <p className="flex items-center text-gray-700">
+                <MapPin className="w-4 h-4 mr-2 text-gray-400" />
+                {client.address}
+              </p>
+            )}
+            {client.birthday && (
+              <p className="flex items-center text-gray-700">
+                <Cake className="w-4 h-4 mr-2 text-gray-400" />
+                {formatDateKey(client.birthday, { day: '2-digit', month: 'long' })}
+              </p>
+            )}
+            {client.notes && <p className="text-gray-600 text-sm">{client.notes}</p>}
+          </motion.div>
+        )}
+
+        {/* Quick Actions */}
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => navigate('/service', { state: { prefilledClient: client.name } })}
+            className="p-3 bg-green-500 text-white rounded-xl text-sm font-medium hover:bg-green-600 transition-colors flex flex-col items-center"
+          >
+            <Plus className="w-5 h-5 mb-1" />
+            Novo serviço
+          </button>
+          <button
+            onClick={() => navigate(`/clients/${client.id}/measurements`)}
+            className="p-3 bg-white text-gray-700 rounded-xl text-sm font-medium shadow-sm hover:bg-gray-50 transition-colors flex flex-col items-center"
+          >
+            <Ruler className="w-5 h-5 mb-1" />
+            Medidas
+          </button>
+          <button
+            onClick={() => whatsAppUrl && window.open(whatsAppUrl, '_blank')}
+            disabled={!whatsAppUrl}
+            className="p-3 bg-white text-gray-700 rounded-xl text-sm font-medium shadow-sm hover:bg-gray-50 transition-colors flex flex-col items-center disabled:opacity-40"
+          >
+            <MessageCircle className="w-5 h-5 mb-1" />
+            WhatsApp
+          </button>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 gap-4">
+          {statCards.map((card, index) => (
+            <motion.div
+              key={card.label}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="bg-white rounded-xl p-4 shadow-sm"
+            >
+              <p className="text-gray-600 text-sm">{card.label}</p>
+              <p className={`text-lg font-bold ${card.highlight ? 'text-red-600' : 'text-gray-800'}`}>{card.value}</p>
+            </motion.div>
+          ))}
+        </div>
+
+        {/* Services */}
+        <div className="space-y-3">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <ClipboardList className="w-5 h-5 mr-2" />
+            Serviços ({stats.serviceCount})
+          </h3>
+
+          {services.length > 0 ? (
+            services.map((service) => {
+              const status = getServiceStatusOption(service.status);
+              const balance = getOutstandingBalance(service, payments);
+
+              return (
+                <button
+                  key={service.id}
+                  onClick={() => navigate(`/service/${service.id}`)}
+                  className="w-full bg-white rounded-xl p-4 shadow-sm text-left hover:shadow-md transition-shadow"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-gray-800 truncate">{service.description}</p>
+                      <p className="text-gray-500 text-sm">
+                        {new Date(service.created_at).toLocaleDateString('pt-BR')}
+                        {service.delivery_date && ` · entrega ${formatDateKey(service.delivery_date)}`}
+                      </p>
+                      <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs text-white ${status.color}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2 ml-3">
+                      <div className="text-right">
+                        <p className="font-semibold text-green-600">R$ {service.value.toFixed(2)}</p>
+                        {balance > 0 && (
+                          <p className="text-red-600 text-xs">Falta R$ {balance.toFixed(2)}</p>
+                        )}
+                      </div>
+                      <ChevronRight className="w-4 h-4 text-gray-400" />
+                    </div>
+                  </div>
+                </button>
+              );
+            })
+          ) : (
+            <p className="text-gray-500 text-sm">Ainda não há serviços para esta cliente.</p>
+          )}
+        </div>
+
+        {/* Piece Counter */}
+        {counter && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-bold text-gray-800 flex items-center">
+                <Package className="w-5 h-5 mr-2" />
+                Contador de Peças
+              </h3>
+              <span className="bg-green-100 text-green-700 font-bold text-sm rounded-full px-3 py-1">
+                {counter.total_pieces} peças
+              </span>
+            </div>
+
+            {history.slice(0, 10).map((entry) => (
+              <div key={entry.id} className="bg-white rounded-xl p-3 shadow-sm flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  {entry.pieces_added > 0 ? (
+                    <ArrowUp className="w-4 h-4 text-green-600" />
+                  ) : (
+                    <ArrowDown className="w-4 h-4 text-red-600" />
+                  )}
+                  <div>
+                    <p className="text-gray-700 text-sm">{entry.description}</p>
+                    <p className="text-gray-500 text-xs">{new Date(entry.created_at).toLocaleDateString('pt-BR')}</p>
+                  </div>
+                </div>
+                <span className={`font-bold ${entry.pieces_added > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {entry.pieces_added > 0 ? '+' : ''}{entry.pieces_added}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Check, Trash2, User, Phone, Mail, MapPin, Cake, FileText } from 'lucide-react';
+import { useClient, useClients, createClient, updateClient, deleteClient } from '../hooks/useSupabase';
+import { formatPhone, normalizePhone, isValidPhone, toE164 } from '../lib/phone';
+
+interface ClientFormData {
+  name: string;
+  phone: string;
+  email: string;
+  address: string;
+  birthday: string;
+  notes: string;
+}
+
+const emptyForm: ClientFormData = { name: '', phone: '', email: '', address: '', birthday: '', notes: '' };
+
+export const ClientFormScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { id: clientId } = useParams<{ id: string }>();
+  const isEditing = Boolean(clientId);
+  const { client, services, counter, loading: clientLoading } = useClient(clientId);
+  const { clients } = useClients();
+  const [formData, setFormData] = useState<ClientFormData>(emptyForm);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (client) {
+      setFormData({
+        name: client.name,
+        phone: formatPhone(client.phone ?? ''),
+        email: client.email ?? '',
+        address: client.address ?? '',
+        birthday: client.birthday ?? '',
+        notes: client.notes ?? ''
+      });
+    }
+  }, [client]);
+
+  const phoneDigits = normalizePhone(formData.phone);
+  const phoneError = phoneDigits.length > 0 && !isValidPhone(phoneDigits);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formData.name.trim();
+    if (!name) return;
+
+    if (phoneError) {
+      alert('Telefone inválido. Informe o DDD e o número, ex: (11) 98765-4321.');
+      return;
+    }
+
+    // Services are linked to clients by name (get_or_create_client), so names must be unique
+    const duplicate = clients.find(c => c.id !== clientId && c.name.toLowerCase() === name.toLowerCase());
+    if (duplicate) {
+      alert(`Já existe uma cliente chamada "${duplicate.name}".`);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const clientData = {
+        name,
+        phone: toE164(phoneDigits),
+        email: formData.email.trim() || null,
+        address: formData.address.trim() || null,
+        birthday: formData.birthday || null,
+        notes: formData.notes.trim() || null
+      };
+
+      if (clientId) {
+        await updateClient(clientId, clientData);
+        navigate(`/clients/${clientId}`, { replace: true });
+      } else {
+        const created = await createClient(clientData);
+        navigate(`/clients/${created.id}`, { replace: true });
+      }
+    } catch (error) {
+      console.error('Erro ao salvar cliente:', error);
+      alert('Erro ao salvar cliente. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!clientId) return;
+
+    const consequences = [
+      services.length > 0 && `${services.length} serviço(s) com pagamentos e fotos`,
+      counter && `o contador de peças (${counter.total_pieces} peças) e seu histórico`,
+      'as medidas registradas'
+    ].filter(Boolean).join(', ');
+
+    if (!confirm(
+      `Excluir ${client?.name}?\n\nTambém serão excluídos: ${consequences}. ` +
+      'Despesas vinculadas são mantidas, sem o vínculo com a cliente. Esta ação não pode ser desfeita.'
+    )) return;
+
+    setLoading(true);
+
+    try {
+      await deleteClient(clientId);
+      navigate('/clients', { replace: true });
+    } catch (error) {
+      console.error('Erro ao excluir cliente:', error);
+      alert('Erro ao excluir cliente. Tente novamente.');
+      setLoading(false);
+    }
+  };
+
+  if (isEditing && clientLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando cliente...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full p-4 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800 flex-1">
+            {isEditing ? 'Editar Cliente' : 'Nova Cliente'}
+          </h1>
+          {isEditing && (
+            <button
+              onClick={handleDelete}
+              disabled={loading}
+              className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors disabled:opacity-50"
+              title="Excluir cliente"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <motion.form
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        onSubmit={handleSubmit}
+        className="p-4 space-y-6"
+      >
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            <User className="w-4 h-4 inline mr-2" />
+            Nome *
+          </label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Nome da cliente"
+            className={inputClass}
+            autoFocus={!isEditing}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            <Phone className="w-4 h-4 inline mr-2" />
+            Telefone / WhatsApp
+          </label>
+          <input
+            type="tel"
+            inputMode="numeric"
+            value={formData.phone}
+            onChange={(e) => setFormData(prev => ({ ...prev, phone: formatPhone(e.target.value) }))}
+            placeholder="(11) 98765-4321"
+            className={`${inputClass} ${phoneError ? 'border-red-400' : ''}`}
+          />
+          {phoneError && (
+            <p className="text-red-600 text-xs">Informe DDD + número (celular com 9 dígitos)</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            <Mail className="w-4 h-4 inline mr-2" />
+            E-mail
+          </label>
+          <input
+            type="email"
+            value={formData.email}
+            onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+            placeholder="cliente@email.com"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            <MapPin className="w-4 h-4 inline mr-2" />
+            Endereço
+          </label>
+          <input
+            type="text"
+            value={formData.address}
+            onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+            placeholder="Rua, número, bairro"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            <Cake className="w-4 h-4 inline mr-2" />
+            Aniversário
+          </label>
+          <input
+            type="date"
+            value={formData.birthday}
+            onChange={(e) => setFormData(prev => ({ ...prev, birthday: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            <FileText className="w-4 h-4 inline mr-2" />
+            Observações
+          </label>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Ex: Prefere prova aos sábados"
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-green-500 text-white p-4 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Check className="w-5 h-5" />
+          <span>{loading ? 'Salvando...' : (isEditing ? 'Salvar Alterações' : 'Cadastrar Cliente')}</span>
+        </button>
+      </motion.form>
+    </div>
+  );
+};
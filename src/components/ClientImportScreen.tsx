@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Upload, Check, AlertTriangle, FileText } from 'lucide-react';
+import { useClients, importClients } from '../hooks/useSupabase';
+import { ImportedContact, parseContactFile, buildImportRows } from '../lib/contactImport';
+import { formatPhone } from '../lib/phone';
+
+export const ClientImportScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { clients, loading } = useClients();
+  const [fileName, setFileName] = useState('');
+  const [contacts, setContacts] = useState<ImportedContact[]>([]);
+  // Rows the user checked or unchecked, relative to the default selection
+  const [toggled, setToggled] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+
+  // Derived, so the duplicate flags follow the client list even if it loads after the file
+  const rows = useMemo(() => buildImportRows(contacts, clients), [contacts, clients]);
+
+  // Possible duplicates start unchecked, names already registered can't be imported
+  const selected = useMemo(() => new Set(
+    rows.flatMap((row, index) => {
+      const selectedByDefault = !row.possibleDuplicate;
+      return !row.alreadyRegistered && selectedByDefault !== toggled.has(index) ? [index] : [];
+    })
+  ), [rows, toggled]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseContactFile(file.name, await file.text());
+
+      if (parsed.length === 0) {
+        alert('Nenhum contato encontrado. Use um arquivo .vcf ou um .csv com a coluna "Nome".');
+        return;
+      }
+
+      setFileName(file.name);
+      setContacts(parsed);
+      setToggled(new Set());
+    } catch (error) {
+      console.error('Erro ao ler arquivo:', error);
+      alert('Erro ao ler o arquivo. Verifique o formato e tente novamente.');
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const toImport = rows.filter((_, index) => selected.has(index));
+    if (toImport.length === 0) return;
+
+    setImporting(true);
+
+    try {
+      await importClients(toImport.map(row => ({
+        name: row.name,
+        phone: row.phone,
+        email: row.email,
+        address: null,
+        birthday: null,
+        notes: row.notes
+      })));
+      navigate('/clients', { replace: true });
+    } catch (error) {
+      console.error('Erro ao importar clientes:', error);
+      alert('Erro ao importar clientes. Tente novamente.');
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/clients')}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-800">Importar Clientes</h1>
+            <p className="text-gray-600 text-sm">Contatos do celular (.vcf) ou planilha (.csv)</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <label className={`block bg-white rounded-2xl p-6 shadow-sm text-center transition-colors ${
+          loading ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'
+        }`}>
+          <Upload className="w-8 h-8 text-green-500 mx-auto mb-2" />
+          <p className="font-semibold text-gray-800">{loading ? 'Carregando clientes...' : fileName || 'Escolher arquivo'}</p>
+          <p className="text-gray-500 text-sm">Planilhas precisam das colunas Nome e Telefone (E-mail e Observações opcionais)</p>
+          <input
+            type="file"
+            accept=".vcf,.csv,text/vcard,text/csv"
+            onChange={handleFile}
+            disabled={loading}
+            className="hidden"
+          />
+        </label>
+
+        {rows.length > 0 && (
+          <>
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <motion.label
+                  key={index}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`flex items-start bg-white rounded-xl p-3 shadow-sm ${
+                    row.alreadyRegistered ? 'opacity-50' : 'cursor-pointer'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    disabled={row.alreadyRegistered}
+                    onChange={() => toggleRow(index)}
+                    className="mt-1 mr-3 accent-green-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-800 truncate">{row.name}</p>
+                    <p className="text-gray-500 text-xs truncate">
+                      {row.phone ? formatPhone(row.phone) : row.rawPhone ? `${row.rawPhone} (inválido, vai para observações)` : 'Sem telefone'}
+                      {row.email && ` · ${row.email}`}
+                    </p>
+                    {row.notes && (
+                      <p className="text-gray-400 text-xs truncate flex items-center">
+                        <FileText className="w-3 h-3 mr-1 flex-shrink-0" />
+                        {row.notes}
+                      </p>
+                    )}
+                    {row.alreadyRegistered && (
+                      <p className="text-gray-600 text-xs mt-1">Já cadastrada</p>
+                    )}
+                    {row.possibleDuplicate && (
+                      <p className="text-yellow-700 text-xs mt-1 flex items-center">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Possível duplicada de {row.possibleDuplicate.name}
+                      </p>
+                    )}
+                  </div>
+                </motion.label>
+              ))}
+            </div>
+
+            <button
+              onClick={handleImport}
+              disabled={importing || selected.size === 0}
+              className="w-full bg-green-500 text-white p-4 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-5 h-5" />
+              <span>{importing ? 'Importando...' : `Importar ${selected.size} cliente${selected.size === 1 ? '' : 's'}`}</span>
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,31 +1,31 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Search, MessageCircle, Plus, Star } from 'lucide-react';
+import { Search, MessageCircle, Plus, Star, Ruler, UserPlus, Users, SlidersHorizontal, Upload, Megaphone } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useClients, updateClientFavorite } from '../hooks/useSupabase';
+import { SegmentSettingsCard } from './SegmentSettingsCard';
+import { useClients, useServices, useProfile, updateClientFavorite } from '../hooks/useSupabase';
+import { Client } from '../lib/supabase';
+import { findDuplicateGroups } from '../lib/duplicates';
+import { getClientWhatsAppUrl } from '../lib/messages';
+import { ClientSegment, segmentOptions, getSegmentOption, getClientSegments, defaultSegmentSettings } from '../lib/segments';
 
 export const ClientsScreen: React.FC = () => {
   const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState('');
+  const [segmentFilter, setSegmentFilter] = useState<ClientSegment | null>(null);
+  const [showSegmentSettings, setShowSegmentSettings] = useState(false);
   const { clients, loading, refetch } = useClients();
+  const { services } = useServices();
+  const { profile, refetch: refetchProfile } = useProfile();
+  const duplicateGroups = findDuplicateGroups(clients);
+
+  const segments = getClientSegments(clients, services, profile ?? defaultSegmentSettings);
 
   const filteredClients = clients.filter(client =>
-    client.name.toLowerCase().includes(searchQuery.toLowerCase())
+    client.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
+    (!segmentFilter || segments[client.id] === segmentFilter)
   );
 
-  const getStatusColor = (client: any) => {
-    // Since we don't have status in clients table, we'll use a simple logic
-    if (client.total_spent > 300) return 'bg-green-500';
-    if (client.total_spent > 150) return 'bg-blue-500';
-    return 'bg-gray-500';
-  };
-
-  const getStatusLabel = (client: any) => {
-    if (client.total_spent > 300) return 'VIP';
-    if (client.total_spent > 150) return 'Regular';
-    return 'Novo';
-  };
-
   const handleNewService = (clientName: string) => {
     navigate('/service', { 
       state: { 
@@ -34,9 +34,9 @@ export const ClientsScreen: React.FC = () => {
     });
   };
 
-  const handleWhatsApp = (phone: string, clientName: string) => {
-    const message = encodeURIComponent(`Olá ${clientName}! Tudo bem? Gostaria de falar sobre seu próximo serviço de costura.`);
-    window.open(`https://wa.me/55${phone}?text=${message}`, '_blank');
+  const handleWhatsApp = (client: Client) => {
+    const url = getClientWhatsAppUrl(profile, 'general', client);
+    if (url) window.open(url, '_blank');
   };
 
   const handleToggleFavorite = async (clientId: string, currentFavorite: boolean) => {
@@ -63,7 +63,51 @@ export const ClientsScreen: React.FC = () => {
     <div className="min-h-screen bg-white">
       {/* Header */}
       <div className="bg-white shadow-sm p-4 sticky top-0 z-10">
-        <h1 className="text-2xl font-bold text-gray-800 mb-4">Meus Clientes</h1>
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold text-gray-800">Meus Clientes</h1>
+          <div className="flex space-x-2">
+            {duplicateGroups.length > 0 && (
+              <button
+                onClick={() => navigate('/clients/duplicates')}
+                className="relative p-2 bg-yellow-100 text-yellow-700 rounded-full hover:bg-yellow-200 transition-colors"
+                title="Clientes duplicadas"
+              >
+                <Users className="w-5 h-5" />
+                <span className="absolute -top-1 -right-1 bg-yellow-500 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center">
+                  {duplicateGroups.length}
+                </span>
+              </button>
+            )}
+            <button
+              onClick={() => navigate('/campaigns')}
+              className="p-2 bg-gray-100 text-gray-600 rounded-full hover:bg-gray-200 transition-colors"
+              title="Campanhas"
+            >
+              <Megaphone className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => navigate('/clients/import')}
+              className="p-2 bg-gray-100 text-gray-600 rounded-full hover:bg-gray-200 transition-colors"
+              title="Importar contatos"
+            >
+              <Upload className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowSegmentSettings(prev => !prev)}
+              className="p-2 bg-gray-100 text-gray-600 rounded-full hover:bg-gray-200 transition-colors"
+              title="Regras dos segmentos"
+            >
+              <SlidersHorizontal className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => navigate('/clients/new')}
+              className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
+              title="Nova cliente"
+            >
+              <UserPlus className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
         
         {/* Search Bar */}
         <div className="relative">
@@ -76,9 +120,43 @@ export const ClientsScreen: React.FC = () => {
             className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
           />
         </div>
+
+        {/* Segment Filters */}
+        <div className="flex flex-wrap gap-2 mt-3">
+          {segmentOptions.map((option) => {
+            const count = clients.filter(client => segments[client.id] === option.value).length;
+            if (count === 0) return null;
+
+            return (
+              <button
+                key={option.value}
+                onClick={() => setSegmentFilter(prev => (prev === option.value ? null : option.value))}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  segmentFilter === option.value
+                    ? `${option.color} text-white`
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label} ({count})
+              </button>
+            );
+          })}
+        </div>
       </div>
 
       <div className="p-4">
+        {showSegmentSettings && (
+          <div className="mb-4">
+            <SegmentSettingsCard
+              profile={profile}
+              onSaved={() => {
+                refetchProfile();
+                setShowSegmentSettings(false);
+              }}
+            />
+          </div>
+        )}
+
         {/* Client List */}
         <div className="space-y-3">
           {filteredClients.map((client, index) => (
@@ -90,11 +168,14 @@ export const ClientsScreen: React.FC = () => {
               className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm"
             >
               <div className="flex items-center justify-between">
-                <div className="flex-1">
+                <div className="flex-1 cursor-pointer" onClick={() => navigate(`/clients/${client.id}`)}>
                   <div className="flex items-center space-x-2 mb-1">
                     <h3 className="font-bold text-gray-800">{client.name}</h3>
                     <button
-                      onClick={() => handleToggleFavorite(client.id, client.is_favorite)}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleToggleFavorite(client.id, client.is_favorite);
+                      }}
                       className="p-1"
                     >
                       <Star 
@@ -116,14 +197,22 @@ export const ClientsScreen: React.FC = () => {
                     <span className="font-semibold text-green-600">
                       R$ {client.total_spent.toFixed(2)}
                     </span>
-                    <span className={`px-2 py-1 rounded-full text-xs text-white ${getStatusColor(client)}`}>
-                      {getStatusLabel(client)}
+                    <span className={`px-2 py-1 rounded-full text-xs text-white ${getSegmentOption(segments[client.id]).color}`}>
+                      {getSegmentOption(segments[client.id]).label}
                     </span>
                   </div>
                 </div>
 
                 {/* Quick Actions */}
                 <div className="flex space-x-2">
+                  <button
+                    onClick={() => navigate(`/clients/${client.id}/measurements`)}
+                    className="p-2 bg-gray-100 text-gray-600 rounded-full hover:bg-gray-200 transition-colors"
+                    title="Medidas"
+                  >
+                    <Ruler className="w-4 h-4" />
+                  </button>
+
                   <button
                     onClick={() => handleNewService(client.name)}
                     className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
@@ -134,7 +223,7 @@ export const ClientsScreen: React.FC = () => {
                   
                   {client.phone && (
                     <button
-                      onClick={() => handleWhatsApp(client.phone!, client.name)}
+                      onClick={() => handleWhatsApp(client)}
                       className="p-2 bg-green-500 text-white rounded-full hover:bg-green-600 transition-colors"
                       title="Enviar WhatsApp"
                     >
@@ -155,10 +244,10 @@ export const ClientsScreen: React.FC = () => {
           >
             <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
             <p className="text-gray-500">
-              {searchQuery ? 'Nenhum cliente encontrado' : 'Ainda não há clientes'}
+              {searchQuery || segmentFilter ? 'Nenhum cliente encontrado' : 'Ainda não há clientes'}
             </p>
             <p className="text-gray-400 text-sm">
-              {searchQuery ? 'Tente buscar por outro termo' : 'Cadastre seu primeiro serviço para começar'}
+              {searchQuery || segmentFilter ? 'Tente buscar por outro termo ou segmento' : 'Cadastre seu primeiro serviço para começar'}
             </p>
           </motion.div>
         )}
@@ -1,33 +1,41 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { TrendingUp, TrendingDown } from 'lucide-react';
-import { Service } from '../lib/supabase';
+import { Service, ServicePayment, Expense } from '../lib/supabase';
+import { getReceipts, sumReceipts } from '../lib/payments';
+import { sumExpenses } from '../lib/expenses';
+import { toDateKey } from '../lib/dates';
 
 interface ComparisonCardProps {
   services: Service[];
+  payments: ServicePayment[];
+  expenses: Expense[];
 }
 
-export const ComparisonCard: React.FC<ComparisonCardProps> = ({ services }) => {
+export const ComparisonCard: React.FC<ComparisonCardProps> = ({ services, payments, expenses }) => {
   // Calculate daily earnings for the last 7 days
+  const receipts = getReceipts(services, payments);
   const today = new Date();
   const weekData = [];
+  let weekExpenses = 0;
   
   for (let i = 6; i >= 0; i--) {
     const date = new Date(today);
     date.setDate(today.getDate() - i);
-    const dateString = date.toISOString().split('T')[0];
-    
-    const dayServices = services.filter(service => 
-      service.created_at.split('T')[0] === dateString && service.status === 'paid'
-    );
-    const dayEarnings = dayServices.reduce((sum, service) => sum + service.value, 0);
-    weekData.push(dayEarnings);
+    const dateString = toDateKey(date);
+    weekData.push(sumReceipts(receipts, dateString));
+    weekExpenses += sumExpenses(expenses, dateString);
   }
 
   const todayEarnings = weekData[weekData.length - 1];
   const yesterdayEarnings = weekData[weekData.length - 2] || 0;
   const maxValue = Math.max(...weekData, 100); // Minimum height for visualization
 
+  // Net profit: money received minus what was spent
+  const todayProfit = todayEarnings - sumExpenses(expenses, toDateKey(today));
+  const weekEarnings = weekData.reduce((sum, value) => sum + value, 0);
+  const weekProfit = weekEarnings - weekExpenses;
+
   // Calculate percentage change
   let percentageChange = 0;
   let isPositive = true;
@@ -53,7 +61,9 @@ export const ComparisonCard: React.FC<ComparisonCardProps> = ({ services }) => {
       <div className="flex items-center justify-between mb-6">
         <div>
           <p className="text-2xl font-bold text-gray-800">R$ {todayEarnings.toFixed(2)}</p>
-          <p className="text-gray-600 text-sm">Hoje</p>
+          <p className="text-gray-600 text-sm">
+            Hoje · <span className={todayProfit >= 0 ? 'text-green-600' : 'text-red-600'}>lucro R$ {todayProfit.toFixed(2)}</span>
+          </p>
         </div>
         <div className="text-right">
           <div className={`flex items-center ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
@@ -94,6 +104,20 @@ export const ComparisonCard: React.FC<ComparisonCardProps> = ({ services }) => {
             <span key={index} className="w-full text-center">{day}</span>
           ))}
         </div>
+        <div className="grid grid-cols-3 gap-2 pt-2 text-center">
+          <div>
+            <p className="text-xs text-gray-500">Receita</p>
+            <p className="text-sm font-semibold text-gray-800">R$ {weekEarnings.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Despesas</p>
+            <p className="text-sm font-semibold text-red-600">R$ {weekExpenses.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Lucro</p>
+            <p className={`text-sm font-semibold ${weekProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>R$ {weekProfit.toFixed(2)}</p>
+          </div>
+        </div>
       </div>
     </motion.div>
   );
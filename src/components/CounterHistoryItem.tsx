@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowUp, ArrowDown, Pencil, Trash2, Check, X } from 'lucide-react';
+import { updateCounterHistoryEntry, deleteCounterHistoryEntry } from '../hooks/useSupabase';
+import { PieceCounterHistory, PieceCounterHistoryAudit } from '../lib/supabase';
+import { getPiecesPerHour } from '../lib/workTime';
+import { getEntryAmount } from '../lib/pieceRates';
+import { formatMinutes } from '../lib/dates';
+
+interface CounterHistoryItemProps {
+  entry: PieceCounterHistory;
+  audit: PieceCounterHistoryAudit[];
+  index: number;
+  onChange: () => void;
+}
+
+export const CounterHistoryItem: React.FC<CounterHistoryItemProps> = ({ entry, audit, index, onChange }) => {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [pieces, setPieces] = useState('');
+  const [description, setDescription] = useState('');
+  const [pieceType, setPieceType] = useState('');
+  const [rate, setRate] = useState('');
+
+  // audit comes oldest first, so the first edit holds the value originally typed
+  const edits = audit.filter(record => record.history_id === entry.id && record.action === 'update');
+  const originalPieces = edits.length > 0 ? edits[0].old_values.pieces_added : null;
+
+  const startEditing = () => {
+    setPieces(String(Math.abs(entry.pieces_added)));
+    setDescription(entry.description || '');
+    setPieceType(entry.piece_type || '');
+    setRate(entry.rate !== null ? String(entry.rate) : '');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    const amount = parseInt(pieces);
+    if (!amount || amount <= 0) {
+      alert('Informe a quantidade de peças.');
+      return;
+    }
+
+    const rateValue = parseFloat(rate.replace(',', '.'));
+    setSaving(true);
+
+    try {
+      // The entry keeps its direction: additions stay positive, removals negative
+      await updateCounterHistoryEntry(entry.id, {
+        pieces_added: entry.pieces_added < 0 ? -amount : amount,
+        description: description.trim() || null,
+        piece_type: pieceType.trim() || null,
+        rate: isNaN(rateValue) ? null : rateValue
+      });
+      setEditing(false);
+      onChange();
+    } catch (error) {
+      console.error('Erro ao editar lançamento:', error);
+      // 23514: the change would leave the counter total below zero
+      if ((error as { code?: string }).code === '23514') {
+        alert('Essa alteração deixaria o contador com total negativo.');
+      } else {
+        alert('Erro ao editar lançamento. Tente novamente.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Excluir o lançamento de ${entry.pieces_added} peças de ${entry.client_name}? O total do contador será ajustado.`)) return;
+
+    try {
+      await deleteCounterHistoryEntry(entry.id);
+      onChange();
+    } catch (error) {
+      console.error('Erro ao excluir lançamento:', error);
+      if ((error as { code?: string }).code === '23514') {
+        alert('Excluir este lançamento deixaria o contador com total negativo.');
+      } else {
+        alert('Erro ao excluir lançamento. Tente novamente.');
+      }
+    }
+  };
+
+  const inputClass = 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: index * 0.05 }}
+      className="bg-white rounded-xl p-4 shadow-sm"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className={`p-2 rounded-full ${
+            entry.pieces_added > 0 ? 'bg-green-100' : 'bg-red-100'
+          }`}>
+            {entry.pieces_added > 0 ? (
+              <ArrowUp className="w-4 h-4 text-green-600" />
+            ) : (
+              <ArrowDown className="w-4 h-4 text-red-600" />
+            )}
+          </div>
+          <div>
+            <p className="font-medium text-gray-800">{entry.client_name}</p>
+            <p className="text-gray-600 text-sm">{entry.description}</p>
+            {entry.piece_type && (
+              <p className="text-gray-500 text-xs">
+                {entry.piece_type}
+                {entry.rate !== null && ` · R$ ${entry.rate.toFixed(2)}/peça = R$ ${getEntryAmount(entry).toFixed(2)}`}
+              </p>
+            )}
+            {entry.minutes_worked != null && entry.minutes_worked > 0 && (
+              <p className="text-gray-500 text-xs">
+                {formatMinutes(entry.minutes_worked)} · {getPiecesPerHour(entry)?.toFixed(1)} peças/hora
+              </p>
+            )}
+            <p className="text-gray-500 text-xs">
+              {new Date(entry.created_at).toLocaleDateString('pt-BR', {
+                day: '2-digit',
+                month: '2-digit',
+                year: '2-digit',
+                hour: '2-digit',
+                minute: '2-digit'
+              })}
+            </p>
+            {originalPieces !== null && (
+              <p className="text-orange-600 text-xs">
+                Editado · valor original: {originalPieces} peças
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="text-right">
+          <p className={`text-lg font-bold ${
+            entry.pieces_added > 0 ? 'text-green-600' : 'text-red-600'
+          }`}>
+            {entry.pieces_added > 0 ? '+' : ''}{entry.pieces_added}
+          </p>
+          <p className="text-gray-500 text-sm">peças</p>
+          {!editing && (
+            <div className="flex justify-end mt-1">
+              <button
+                onClick={startEditing}
+                className="p-1 text-gray-400 hover:text-green-600 transition-colors"
+                title="Editar lançamento"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleDelete}
+                className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                title="Excluir lançamento"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number"
+              min="1"
+              value={pieces}
+              onChange={(e) => setPieces(e.target.value)}
+              placeholder="Peças"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={pieceType}
+              onChange={(e) => setPieceType(e.target.value)}
+              placeholder="Tipo"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="R$/peça"
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Descrição"
+            className={inputClass}
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setEditing(false)}
+              className="flex-1 py-2 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors flex items-center justify-center"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 py-2 rounded-lg text-sm font-medium text-white bg-green-500 hover:bg-green-600 transition-colors flex items-center justify-center disabled:opacity-50"
+            >
+              <Check className="w-4 h-4 mr-1" />
+              {saving ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Clock } from 'lucide-react';
+import { CounterHistoryItem } from './CounterHistoryItem';
+import {
+  usePieceCounters,
+  usePieceCounterHistoryPage,
+  usePieceCounterTotals,
+  usePieceCounterAudit,
+  CounterHistoryFilters
+} from '../hooks/useSupabase';
+import { toDateKey, startOfWeek, startOfMonth } from '../lib/dates';
+
+type Direction = NonNullable<CounterHistoryFilters['direction']> | 'all';
+
+const directionOptions: { value: Direction; label: string }[] = [
+  { value: 'all', label: 'Todos' },
+  { value: 'add', label: 'Entradas' },
+  { value: 'remove', label: 'Saídas' }
+];
+
+export const CounterHistoryScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const today = toDateKey(new Date());
+  const { counters, refetch: refetchCounters } = usePieceCounters();
+  const [counterId, setCounterId] = useState('');
+  const [from, setFrom] = useState(toDateKey(startOfWeek(new Date())));
+  const [to, setTo] = useState(today);
+  const [direction, setDirection] = useState<Direction>('all');
+
+  const filters: CounterHistoryFilters = {
+    counterId: counterId || undefined,
+    from: from || undefined,
+    to: to || undefined,
+    direction: direction === 'all' ? undefined : direction
+  };
+  const { history, count, loading, loadingMore, hasMore, loadMore, refetch } = usePieceCounterHistoryPage(filters);
+  const { audit, refetch: refetchAudit } = usePieceCounterAudit(history.map(entry => entry.id));
+  const { totals, refetch: refetchTotals } = usePieceCounterTotals(filters);
+
+  const periodOptions = [
+    { label: 'Hoje', from: today },
+    { label: 'Semana', from: toDateKey(startOfWeek(new Date())) },
+    { label: 'Mês', from: toDateKey(startOfMonth(new Date())) },
+    { label: 'Tudo', from: '' }
+  ];
+
+  const piecesAdded = totals.reduce((sum, total) => sum + total.pieces_added, 0);
+  const piecesRemoved = totals.reduce((sum, total) => sum + total.pieces_removed, 0);
+  const amount = totals.reduce((sum, total) => sum + total.amount, 0);
+
+  const handleChange = () => {
+    refetch();
+    refetchTotals();
+    refetchAudit();
+    refetchCounters();
+  };
+
+  const inputClass = 'w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4 space-y-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800">Histórico do Contador</h1>
+        </div>
+
+        <select
+          value={counterId}
+          onChange={(e) => setCounterId(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Todas as clientes</option>
+          {counters.map((counter) => (
+            <option key={counter.id} value={counter.id}>{counter.client_name}</option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {periodOptions.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => {
+                setFrom(option.from);
+                setTo(option.from ? today : '');
+              }}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                from === option.from && to === (option.from ? today : '')
+                  ? 'bg-green-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <span className="w-px bg-gray-200 mx-1" />
+          {directionOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setDirection(option.value)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                direction === option.value
+                  ? 'bg-green-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Period Totals */}
+        <div className="bg-white rounded-2xl p-6 shadow-sm space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-gray-600 text-sm">Entradas</p>
+              <p className="text-xl font-bold text-green-600">+{piecesAdded}</p>
+            </div>
+            <div>
+              <p className="text-gray-600 text-sm">Saídas</p>
+              <p className="text-xl font-bold text-red-600">-{piecesRemoved}</p>
+            </div>
+            <div>
+              <p className="text-gray-600 text-sm">Total ganho</p>
+              <p className="text-xl font-bold text-gray-800">R$ {amount.toFixed(2)}</p>
+            </div>
+          </div>
+
+          {totals.length > 1 && (
+            <table className="w-full text-sm">
+              <tbody>
+                {totals.map((total) => (
+                  <tr key={total.counter_id} className="border-t border-gray-100">
+                    <td className="py-2 text-gray-700">{total.client_name}</td>
+                    <td className="py-2 text-right text-gray-600">
+                      {total.pieces_added - total.pieces_removed} peças
+                    </td>
+                    <td className="py-2 text-right font-semibold text-gray-800">R$ {total.amount.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Entries */}
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-gray-200 animate-pulse rounded-xl h-16"></div>
+            ))}
+          </div>
+        ) : history.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-gray-500 text-sm">{count} lançamentos</p>
+            {history.map((entry, index) => (
+              <CounterHistoryItem
+                key={entry.id}
+                entry={entry}
+                audit={audit}
+                index={index % 20}
+                onChange={handleChange}
+              />
+            ))}
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="w-full p-3 rounded-xl font-semibold text-gray-700 bg-white shadow-sm hover:bg-gray-100 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Carregando...' : 'Carregar mais'}
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Clock className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Nenhum lançamento encontrado</p>
+            <p className="text-gray-400 text-sm">Mude os filtros para ver outros períodos</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
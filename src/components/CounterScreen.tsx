@@ -1,17 +1,60 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Minus, Package, Clock, User, ArrowUp, ArrowDown } from 'lucide-react';
-import { usePieceCounters, usePieceCounterHistory, addPiecesToCounter, useClients } from '../hooks/useSupabase';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Minus, Package, Clock, User, Timer, Tag, FileText, Undo2, X } from 'lucide-react';
+import { WorkTimer } from './WorkTimer';
+import { PieceLotsSection } from './PieceLotsSection';
+import { CounterHistoryItem } from './CounterHistoryItem';
+import { usePieceCounters, usePieceCounterHistoryPage, usePieceCounterTotals, addPiecesToCounter, deleteCounterHistoryEntry, useClients, useProfile, useWorkSessions, usePieceRates, usePieceCounterAudit, usePieceLots } from '../hooks/useSupabase';
+import { getTrackedMinutes } from '../lib/workTime';
+import { findPieceRate, getPieceTypes } from '../lib/pieceRates';
+import { PieceCounterHistory } from '../lib/supabase';
 
 export const CounterScreen: React.FC = () => {
-  const { counters, loading: countersLoading, refetch: refetchCounters } = usePieceCounters();
-  const { history, loading: historyLoading, refetch: refetchHistory } = usePieceCounterHistory();
+  const navigate = useNavigate();
+  const { counters, loading: countersLoading, refetch: refetchCounters, upsertCounter } = usePieceCounters();
+  const { history, loading: historyLoading, refetch: refetchRecent } = usePieceCounterHistoryPage({}, 10);
+  const { audit, refetch: refetchAudit } = usePieceCounterAudit(history.map(entry => entry.id));
+  const { totals, refetch: refetchTotals } = usePieceCounterTotals({});
   const { clients } = useClients();
+  const { profile } = useProfile();
+  const { sessions, refetch: refetchSessions } = useWorkSessions();
+  const { rates } = usePieceRates();
+  const { lots, refetch: refetchLots } = usePieceLots();
   const [selectedClient, setSelectedClient] = useState('');
   const [pieces, setPieces] = useState('');
+  const [pieceType, setPieceType] = useState('');
+  const [rate, setRate] = useState('');
   const [description, setDescription] = useState('');
   const [isAdding, setIsAdding] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [lastEntry, setLastEntry] = useState<PieceCounterHistory | null>(null);
+
+  const refetchHistory = () => {
+    refetchRecent();
+    refetchTotals();
+  };
+
+  const selectedClientId = clients.find(client => client.name === selectedClient)?.id;
+  const rateValue = parseFloat(rate.replace(',', '.'));
+  const estimatedAmount = (parseInt(pieces) || 0) * (rateValue || 0);
+
+  // The registered rate fills the field, but it can still be changed for this entry
+  const fillRate = (clientName: string, type: string) => {
+    const clientId = clients.find(client => client.name === clientName)?.id;
+    const pieceRate = findPieceRate(rates, clientId, type);
+    if (pieceRate) setRate(String(pieceRate.rate));
+  };
+
+  const handleClientChange = (clientName: string) => {
+    setSelectedClient(clientName);
+    fillRate(clientName, pieceType);
+  };
+
+  const handlePieceTypeChange = (type: string) => {
+    setPieceType(type);
+    fillRate(selectedClient, type);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,24 +64,41 @@ export const CounterScreen: React.FC = () => {
       return;
     }
 
+    // The server rejects it as well; checking here gives a clearer message
+    const currentTotal = counters.find(counter => counter.client_name === selectedClient)?.total_pieces ?? 0;
+    if (!isAdding && parseInt(pieces) > currentTotal) {
+      alert(`${selectedClient} tem só ${currentTotal} peças no contador.`);
+      return;
+    }
+
     setLoading(true);
     
     try {
       const piecesAmount = isAdding ? parseInt(pieces) : -parseInt(pieces);
-      await addPiecesToCounter({
+      // Time on the timer goes with the pieces produced
+      const minutesWorked = isAdding ? Math.round(getTrackedMinutes(sessions)) : 0;
+      const { entry, counter } = await addPiecesToCounter({
         client_name: selectedClient,
         pieces_added: piecesAmount,
-        description: description || (isAdding ? 'Peças adicionadas' : 'Peças removidas')
+        description: description || (isAdding ? 'Peças adicionadas' : 'Peças removidas'),
+        minutes_worked: minutesWorked || undefined,
+        piece_type: pieceType.trim() || undefined,
+        rate: isNaN(rateValue) ? undefined : rateValue
       });
       
+      setLastEntry(entry);
+
       // Reset form
       setSelectedClient('');
       setPieces('');
+      setPieceType('');
+      setRate('');
       setDescription('');
       
       // Refresh data
-      refetchCounters();
+      upsertCounter(counter);
       refetchHistory();
+      refetchSessions();
       
     } catch (error) {
       console.error('Erro ao atualizar contador:', error);
@@ -48,7 +108,29 @@ export const CounterScreen: React.FC = () => {
     }
   };
 
-  const quickAmounts = ['5', '10', '15', '20'];
+  const refreshAfterEdit = () => {
+    refetchCounters();
+    refetchHistory();
+    refetchAudit();
+    refetchLots();
+  };
+
+  // Undo removes the entry just saved; the trigger takes it off the counter total
+  const handleUndo = async () => {
+    if (!lastEntry) return;
+
+    try {
+      await deleteCounterHistoryEntry(lastEntry.id);
+      setLastEntry(null);
+      refreshAfterEdit();
+      refetchSessions();
+    } catch (error) {
+      console.error('Erro ao desfazer lançamento:', error);
+      alert('Erro ao desfazer lançamento. Tente novamente.');
+    }
+  };
+
+  const quickAmounts = (profile?.counter_quick_amounts || []).map(String);
 
   const getTotalPieces = () => {
     return counters.reduce((total, counter) => total + counter.total_pieces, 0);
@@ -71,15 +153,53 @@ export const CounterScreen: React.FC = () => {
       <div className="bg-white shadow-sm p-4 sticky top-0 z-10">
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold text-gray-800">Contador de Peças</h1>
-          <div className="bg-green-100 rounded-full px-3 py-1">
-            <span className="text-green-700 font-bold text-sm">
-              {getTotalPieces()} peças
-            </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => navigate('/counter/rates')}
+              className="p-2 bg-gray-100 text-gray-600 rounded-full hover:bg-gray-200 transition-colors"
+              title="Valor por peça"
+            >
+              <Tag className="w-5 h-5" />
+            </button>
+            <div className="bg-green-100 rounded-full px-3 py-1">
+              <span className="text-green-700 font-bold text-sm">
+                {getTotalPieces()} peças
+              </span>
+            </div>
           </div>
         </div>
       </div>
 
       <div className="p-4 space-y-6">
+        {/* Undo Last Entry */}
+        {lastEntry && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-green-50 border border-green-200 rounded-xl p-3 flex items-center justify-between"
+          >
+            <p className="text-green-800 text-sm">
+              {lastEntry.pieces_added > 0 ? '+' : ''}{lastEntry.pieces_added} peças para {lastEntry.client_name}
+            </p>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={handleUndo}
+                className="px-3 py-1 text-green-700 text-sm font-medium rounded-full hover:bg-green-100 transition-colors flex items-center"
+              >
+                <Undo2 className="w-4 h-4 mr-1" />
+                Desfazer
+              </button>
+              <button
+                onClick={() => setLastEntry(null)}
+                className="p-1 text-green-700 hover:bg-green-100 rounded-full transition-colors"
+                title="Fechar"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </motion.div>
+        )}
+
         {/* Add/Remove Form */}
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
@@ -123,7 +243,7 @@ export const CounterScreen: React.FC = () => {
               </label>
               <select
                 value={selectedClient}
-                onChange={(e) => setSelectedClient(e.target.value)}
+                onChange={(e) => handleClientChange(e.target.value)}
                 className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 required
               >
@@ -164,9 +284,85 @@ export const CounterScreen: React.FC = () => {
                     {amount} peças
                   </button>
                 ))}
+                <button
+                  type="button"
+                  onClick={() => navigate('/catalog')}
+                  className="px-3 py-1 text-green-600 rounded-full text-sm hover:bg-green-50 transition-colors"
+                >
+                  Editar
+                </button>
               </div>
             </div>
 
+            {/* Piece Type and Rate */}
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">
+                    <Tag className="w-4 h-4 inline mr-2" />
+                    Tipo de peça
+                  </label>
+                  <input
+                    type="text"
+                    value={pieceType}
+                    onChange={(e) => handlePieceTypeChange(e.target.value)}
+                    placeholder="Ex: Camiseta"
+                    className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">Valor por peça</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={rate}
+                    onChange={(e) => setRate(e.target.value)}
+                    placeholder="R$"
+                    className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {getPieceTypes(rates, selectedClientId).map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => handlePieceTypeChange(type)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                      pieceType === type
+                        ? 'bg-green-500 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+
+              {estimatedAmount > 0 && (
+                <p className="text-gray-600 text-sm">
+                  Total: <span className="font-semibold text-green-600">R$ {estimatedAmount.toFixed(2)}</span>
+                </p>
+              )}
+            </div>
+
+            {/* Production Timer */}
+            {isAdding && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  <Timer className="w-4 h-4 inline mr-2" />
+                  Cronômetro de produção
+                </label>
+                <div className="bg-gray-50 rounded-xl p-3">
+                  <WorkTimer sessions={sessions} onChange={refetchSessions} />
+                </div>
+                {sessions.length > 0 && (
+                  <p className="text-gray-500 text-xs">O tempo será registrado junto com as peças</p>
+                )}
+              </div>
+            )}
+
             {/* Description */}
             <div className="space-y-2">
               <label className="block text-sm font-medium text-gray-700">Descrição (opcional)</label>
@@ -194,6 +390,19 @@ export const CounterScreen: React.FC = () => {
           </form>
         </motion.div>
 
+        {/* Production Lots */}
+        <PieceLotsSection
+          lots={lots}
+          counters={counters}
+          clients={clients}
+          rates={rates}
+          onChange={() => {
+            refetchCounters();
+            refetchHistory();
+            refetchLots();
+          }}
+        />
+
         {/* Counters by Client */}
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
@@ -205,7 +414,10 @@ export const CounterScreen: React.FC = () => {
           
           {counters.length > 0 ? (
             <div className="space-y-3">
-              {counters.map((counter, index) => (
+              {counters.map((counter, index) => {
+                const earned = totals.find(total => total.counter_id === counter.id)?.amount ?? 0;
+
+                return (
                 <motion.div
                   key={counter.id}
                   initial={{ opacity: 0, x: -20 }}
@@ -225,8 +437,21 @@ export const CounterScreen: React.FC = () => {
                       <p className="text-gray-500 text-sm">peças</p>
                     </div>
                   </div>
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
+                    <p className="text-gray-600 text-sm">
+                      Total ganho: <span className="font-semibold text-gray-800">R$ {earned.toFixed(2)}</span>
+                    </p>
+                    <button
+                      onClick={() => navigate(`/counter/${counter.id}/statement`)}
+                      className="text-green-600 text-sm font-medium flex items-center hover:text-green-700"
+                    >
+                      <FileText className="w-4 h-4 mr-1" />
+                      Extrato
+                    </button>
+                  </div>
                 </motion.div>
-              ))}
+                );
+              })}
             </div>
           ) : (
             <div className="text-center py-8">
@@ -244,10 +469,20 @@ export const CounterScreen: React.FC = () => {
           transition={{ delay: 0.2 }}
           className="space-y-4"
         >
-          <h3 className="text-lg font-bold text-gray-800 flex items-center">
-            <Clock className="w-5 h-5 mr-2" />
-            Histórico Recente
-          </h3>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-bold text-gray-800 flex items-center">
+              <Clock className="w-5 h-5 mr-2" />
+              Histórico Recente
+            </h3>
+            {history.length > 0 && (
+              <button
+                onClick={() => navigate('/counter/history')}
+                className="text-green-600 text-sm font-medium hover:text-green-700"
+              >
+                Ver tudo
+              </button>
+            )}
+          </div>
           
           {historyLoading ? (
             <div className="space-y-3">
@@ -257,49 +492,14 @@ export const CounterScreen: React.FC = () => {
             </div>
           ) : history.length > 0 ? (
             <div className="space-y-3">
-              {history.slice(0, 10).map((entry, index) => (
-                <motion.div
+              {history.map((entry, index) => (
+                <CounterHistoryItem
                   key={entry.id}
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className="bg-white rounded-xl p-4 shadow-sm"
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      <div className={`p-2 rounded-full ${
-                        entry.pieces_added > 0 ? 'bg-green-100' : 'bg-red-100'
-                      }`}>
-                        {entry.pieces_added > 0 ? (
-                          <ArrowUp className="w-4 h-4 text-green-600" />
-                        ) : (
-                          <ArrowDown className="w-4 h-4 text-red-600" />
-                        )}
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-800">{entry.client_name}</p>
-                        <p className="text-gray-600 text-sm">{entry.description}</p>
-                        <p className="text-gray-500 text-xs">
-                          {new Date(entry.created_at).toLocaleDateString('pt-BR', {
-                            day: '2-digit',
-                            month: '2-digit',
-                            year: '2-digit',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                        </p>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <p className={`text-lg font-bold ${
-                        entry.pieces_added > 0 ? 'text-green-600' : 'text-red-600'
-                      }`}>
-                        {entry.pieces_added > 0 ? '+' : ''}{entry.pieces_added}
-                      </p>
-                      <p className="text-gray-500 text-sm">peças</p>
-                    </div>
-                  </div>
-                </motion.div>
+                  entry={entry}
+                  audit={audit}
+                  index={index}
+                  onChange={refreshAfterEdit}
+                />
               ))}
             </div>
           ) : (
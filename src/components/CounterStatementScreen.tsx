@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Printer, Package } from 'lucide-react';
+import { usePieceCounters, usePieceCounterHistory, useProfile } from '../hooks/useSupabase';
+import { getCounterStatement, StatementLine } from '../lib/pieceRates';
+import { toDateKey, startOfMonth, formatDateKey } from '../lib/dates';
+
+export const CounterStatementScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { id: counterId } = useParams<{ id: string }>();
+  const { counters, loading: countersLoading } = usePieceCounters();
+  const { profile } = useProfile();
+  const [from, setFrom] = useState(toDateKey(startOfMonth(new Date())));
+  const [to, setTo] = useState(toDateKey(new Date()));
+  const { history, loading: historyLoading } = usePieceCounterHistory({ counterId, from, to });
+
+  const counter = counters.find(c => c.id === counterId);
+
+  if (countersLoading || historyLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando extrato...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!counter) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-500">Contador não encontrado</p>
+          <button
+            onClick={() => navigate('/counter')}
+            className="text-green-600 text-sm font-medium mt-2"
+          >
+            Voltar ao contador
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const statement = getCounterStatement(history, from, to);
+
+  const renderLines = (lines: StatementLine[], formatKey: (key: string) => string) => (
+    <table className="w-full text-sm">
+      <tbody>
+        {lines.map((line) => (
+          <tr key={line.key} className="border-b border-gray-100 last:border-0">
+            <td className="py-2 text-gray-700">{formatKey(line.key)}</td>
+            <td className="py-2 text-right text-gray-600">{line.pieces} peças</td>
+            <td className="py-2 text-right font-semibold text-gray-800">R$ {line.amount.toFixed(2)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4 space-y-4 print:hidden">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800 flex-1">Extrato de Peças</h1>
+          <button
+            onClick={() => window.print()}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+            title="Imprimir"
+          >
+            <Printer className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="space-y-1 text-sm font-medium text-gray-700">
+            De
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </label>
+          <label className="space-y-1 text-sm font-medium text-gray-700">
+            Até
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4 print:p-0">
+        <div className="bg-white rounded-2xl p-6 shadow-sm print:shadow-none space-y-1">
+          {profile?.business_name && <p className="text-gray-500 text-sm">{profile.business_name}</p>}
+          <h2 className="text-xl font-bold text-gray-800">{counter.client_name}</h2>
+          <p className="text-gray-600 text-sm">
+            {formatDateKey(from)} a {formatDateKey(to)}
+          </p>
+          <div className="grid grid-cols-2 gap-4 pt-3">
+            <div>
+              <p className="text-gray-600 text-sm">Peças</p>
+              <p className="text-2xl font-bold text-gray-800">{statement.totalPieces}</p>
+            </div>
+            <div>
+              <p className="text-gray-600 text-sm">A receber</p>
+              <p className="text-2xl font-bold text-green-600">R$ {statement.totalAmount.toFixed(2)}</p>
+            </div>
+          </div>
+        </div>
+
+        {statement.entries.length > 0 ? (
+          <>
+            <div className="bg-white rounded-2xl p-6 shadow-sm print:shadow-none">
+              <h3 className="font-bold text-gray-800 mb-2">Por tipo de peça</h3>
+              {renderLines(statement.byType, key => key)}
+            </div>
+
+            <div className="bg-white rounded-2xl p-6 shadow-sm print:shadow-none">
+              <h3 className="font-bold text-gray-800 mb-2">Por dia</h3>
+              {renderLines(statement.byDay, key => formatDateKey(key, { weekday: 'short', day: '2-digit', month: '2-digit' }))}
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-8">
+            <Package className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Nenhum lançamento no período</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
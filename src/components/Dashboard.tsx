@@ -1,34 +1,60 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { TrendingUp, Users, Scissors } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { TrendingUp, Users, Scissors, X } from 'lucide-react';
 import { QuickActions } from './QuickActions';
 import { ComparisonCard } from './ComparisonCard';
-import { useServices, useClients, useSupabase } from '../hooks/useSupabase';
+import { RevenueByItemCard } from './RevenueByItemCard';
+import { ExpensesByCategoryCard } from './ExpensesByCategoryCard';
+import { LowStockCard } from './LowStockCard';
+import { HourlyRateCard } from './HourlyRateCard';
+import { ReactivationCard } from './ReactivationCard';
+import { NotifyClientButton } from './NotifyClientButton';
+import { useServices, useClients, useSupabase, useServicePayments, useServiceItems, useExpenses, useMaterials, useProfile, useClientContacts } from '../hooks/useSupabase';
+import { getReceipts, sumReceipts } from '../lib/payments';
+import { sumExpenses } from '../lib/expenses';
+import { toDateKey, isOverdue } from '../lib/dates';
+import { defaultSegmentSettings } from '../lib/segments';
+import { statusTemplateKeys } from '../lib/messages';
 
 export const Dashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useSupabase();
   const { services } = useServices();
   const { clients } = useClients();
+  const { payments } = useServicePayments();
+  const { items } = useServiceItems();
+  const { expenses } = useExpenses();
+  const { materials } = useMaterials();
+  const { profile } = useProfile();
+  const { contacts, refetch: refetchContacts } = useClientContacts();
 
   const currentHour = new Date().getHours();
   const greeting = currentHour < 12 ? 'Bom dia' : currentHour < 18 ? 'Boa tarde' : 'Boa noite';
 
+  // Money actually received (payments plus fully paid services)
+  const receipts = getReceipts(services, payments);
+
   // Calculate today's earnings
-  const today = new Date().toISOString().split('T')[0];
-  const todayServices = services.filter(service => 
-    service.created_at.split('T')[0] === today && service.status === 'paid'
-  );
-  const todayEarnings = todayServices.reduce((sum, service) => sum + service.value, 0);
+  const todayKey = toDateKey(new Date());
+  const todayEarnings = sumReceipts(receipts, todayKey);
 
   // Calculate pending services
   const pendingServices = services.filter(service => service.status === 'progress');
 
+  // Deliveries due today and overdue jobs
+  const deliveriesToday = pendingServices.filter(service => service.delivery_date === todayKey);
+  const overdueServices = pendingServices.filter(service => isOverdue(service, todayKey));
+
   // Calculate this month's earnings
-  const thisMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-  const monthlyServices = services.filter(service => 
-    service.created_at.slice(0, 7) === thisMonth && service.status === 'paid'
-  );
-  const monthlyEarnings = monthlyServices.reduce((sum, service) => sum + service.value, 0);
+  const thisMonth = todayKey.slice(0, 7); // YYYY-MM
+  const monthlyEarnings = sumReceipts(receipts, thisMonth);
+  const monthlyProfit = monthlyEarnings - sumExpenses(expenses, thisMonth);
+
+  // Service just registered in ServiceForm: offer to let the client know
+  const createdService = services.find(service => service.id === location.state?.notifyServiceId);
+  const createdServiceClient = clients.find(client => client.id === createdService?.client_id);
 
   return (
     <div className="p-4 space-y-6">
@@ -44,6 +70,12 @@ export const Dashboard: React.FC = () => {
             <p className="text-green-100 mt-1">
               {pendingServices.length} serviços pendentes · <span className="font-semibold">R$ {todayEarnings.toFixed(2)}</span> hoje
             </p>
+            <button
+              onClick={() => navigate('/agenda')}
+              className="text-green-100 text-sm mt-1 underline-offset-2 hover:underline"
+            >
+              {deliveriesToday.length} entregas hoje / <span className={overdueServices.length > 0 ? 'font-semibold text-white' : ''}>{overdueServices.length} atrasadas</span>
+            </button>
           </div>
           <div className="bg-white/20 rounded-full p-3">
             <Scissors className="w-6 h-6" />
@@ -51,6 +83,37 @@ export const Dashboard: React.FC = () => {
         </div>
       </motion.div>
 
+      {/* New Service Notification */}
+      {createdService && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-green-50 border border-green-200 rounded-2xl p-4 flex items-center justify-between"
+        >
+          <div className="min-w-0">
+            <p className="font-bold text-green-700">Serviço registrado</p>
+            <p className="text-green-600 text-sm truncate">{createdService.client_name} · {createdService.description}</p>
+          </div>
+          <div className="flex items-center space-x-1 ml-2">
+            <NotifyClientButton
+              service={createdService}
+              phone={createdServiceClient?.phone ?? null}
+              templateKey={statusTemplateKeys[createdService.status]}
+            />
+            <button
+              onClick={() => navigate('/', { replace: true })}
+              className="p-2 text-green-600 hover:bg-green-100 rounded-full transition-colors"
+              title="Fechar"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Low Stock Warning */}
+      <LowStockCard materials={materials} />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 gap-4">
         <motion.div 
@@ -83,13 +146,35 @@ export const Dashboard: React.FC = () => {
             <div>
               <p className="text-gray-600 text-sm">Este mês</p>
               <p className="text-lg font-bold">R$ {monthlyEarnings.toFixed(2)}</p>
+              <p className={`text-xs font-medium ${monthlyProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                Lucro R$ {monthlyProfit.toFixed(2)}
+              </p>
             </div>
           </div>
         </motion.div>
       </div>
 
       {/* Comparison Card */}
-      <ComparisonCard services={services} />
+      <ComparisonCard services={services} payments={payments} expenses={expenses} />
+
+      {/* Revenue by Item Type */}
+      <RevenueByItemCard services={services} items={items} />
+
+      {/* Effective Hourly Rate */}
+      <HourlyRateCard services={services} />
+
+      {/* Campaigns: clients to reactivate and birthdays */}
+      <ReactivationCard
+        clients={clients}
+        services={services}
+        settings={profile ?? defaultSegmentSettings}
+        profile={profile}
+        contacts={contacts}
+        onContacted={refetchContacts}
+      />
+
+      {/* Expenses by Category */}
+      <ExpensesByCategoryCard expenses={expenses} />
 
       {/* Quick Actions */}
       <QuickActions clients={clients} />
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Users, Merge, Phone, CheckCircle } from 'lucide-react';
+import { useClients, mergeClients } from '../hooks/useSupabase';
+import { findDuplicateGroups, DuplicateGroup } from '../lib/duplicates';
+import { formatPhone } from '../lib/phone';
+
+const getGroupKey = (group: DuplicateGroup) => group.clients.map(client => client.id).join(':');
+
+export const DuplicatesScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { clients, loading, refetch } = useClients();
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [merging, setMerging] = useState<string | null>(null);
+
+  const groups = findDuplicateGroups(clients);
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const key = getGroupKey(group);
+    const targetId = targets[key] ?? group.clients[0].id;
+    const target = group.clients.find(client => client.id === targetId)!;
+    const sources = group.clients.filter(client => client.id !== targetId);
+
+    if (!confirm(
+      `Mesclar ${sources.map(client => `"${client.name}"`).join(', ')} em "${target.name}"?\n\n` +
+      'Serviços, contador de peças, medidas e despesas passam para a cliente mantida e as outras fichas são excluídas.'
+    )) return;
+
+    setMerging(key);
+
+    try {
+      for (const source of sources) {
+        await mergeClients(target.id, source.id);
+      }
+      refetch();
+    } catch (error) {
+      console.error('Erro ao mesclar clientes:', error);
+      alert('Erro ao mesclar clientes. Tente novamente.');
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Procurando duplicadas...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/clients')}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-800">Clientes Duplicadas</h1>
+            <p className="text-gray-600 text-sm">Escolha qual ficha manter e mescle as outras</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {groups.map((group, index) => {
+          const key = getGroupKey(group);
+          const targetId = targets[key] ?? group.clients[0].id;
+
+          return (
+            <motion.div
+              key={key}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="bg-white rounded-2xl p-4 shadow-sm space-y-3"
+            >
+              <p className="text-gray-500 text-xs flex items-center">
+                {group.reason === 'phone' ? (
+                  <><Phone className="w-3 h-3 mr-1" />Mesmo telefone</>
+                ) : (
+                  <><Users className="w-3 h-3 mr-1" />Nomes parecidos</>
+                )}
+              </p>
+
+              <div className="space-y-2">
+                {group.clients.map((client) => (
+                  <label
+                    key={client.id}
+                    className={`flex items-center p-3 rounded-xl border cursor-pointer ${
+                      client.id === targetId ? 'border-green-500 bg-green-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name={key}
+                      checked={client.id === targetId}
+                      onChange={() => setTargets(prev => ({ ...prev, [key]: client.id }))}
+                      className="mr-3 accent-green-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-gray-800 truncate">{client.name}</p>
+                      <p className="text-gray-500 text-xs">
+                        {client.phone ? formatPhone(client.phone) : 'Sem telefone'}
+                        {' · '}R$ {client.total_spent.toFixed(2)}
+                        {client.last_service_date && ` · último serviço ${new Date(client.last_service_date).toLocaleDateString('pt-BR')}`}
+                      </p>
+                    </div>
+                    {client.id === targetId && (
+                      <span className="text-green-600 text-xs font-medium ml-2">Manter</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+
+              <button
+                onClick={() => handleMerge(group)}
+                disabled={merging !== null}
+                className="w-full p-3 bg-green-500 text-white rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                <Merge className="w-4 h-4" />
+                <span>{merging === key ? 'Mesclando...' : 'Mesclar'}</span>
+              </button>
+            </motion.div>
+          );
+        })}
+
+        {groups.length === 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-center py-12"
+          >
+            <CheckCircle className="w-12 h-12 text-green-300 mx-auto mb-4" />
+            <p className="text-gray-500">Nenhuma cliente duplicada</p>
+            <p className="text-gray-400 text-sm">Nomes e telefones parecidos aparecem aqui</p>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { Receipt, ChevronRight } from 'lucide-react';
+import { Expense } from '../lib/supabase';
+import { expenseCategoryLabels, getExpensesByCategory, sumExpenses } from '../lib/expenses';
+import { toDateKey } from '../lib/dates';
+
+interface ExpensesByCategoryCardProps {
+  expenses: Expense[];
+}
+
+export const ExpensesByCategoryCard: React.FC<ExpensesByCategoryCardProps> = ({ expenses }) => {
+  const navigate = useNavigate();
+  const thisMonth = toDateKey(new Date()).slice(0, 7);
+  const monthlyTotal = sumExpenses(expenses, thisMonth);
+  const byCategory = getExpensesByCategory(expenses, thisMonth);
+  const maxTotal = Math.max(...byCategory.map(group => group.total), 1);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+      className="bg-white rounded-2xl p-6 shadow-sm"
+    >
+      <button
+        onClick={() => navigate('/expenses')}
+        className="w-full flex items-center justify-between mb-4"
+      >
+        <h3 className="text-lg font-bold text-gray-800 flex items-center">
+          <Receipt className="w-5 h-5 mr-2 text-red-500" />
+          Despesas do Mês
+        </h3>
+        <span className="flex items-center text-gray-800 font-bold">
+          R$ {monthlyTotal.toFixed(2)}
+          <ChevronRight className="w-4 h-4 ml-1 text-gray-400" />
+        </span>
+      </button>
+
+      {byCategory.length > 0 ? (
+        <div className="space-y-3">
+          {byCategory.map((group) => (
+            <div key={group.category} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-700">{expenseCategoryLabels[group.category]}</span>
+                <span className="font-semibold text-gray-800 ml-2">R$ {group.total.toFixed(2)}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <motion.div
+                  initial={{ width: 0 }}
+                  animate={{ width: `${(group.total / maxTotal) * 100}%` }}
+                  className="h-full bg-red-400 rounded-full"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-sm">Nenhuma despesa registrada este mês. Toque para registrar linha, tecido, manutenção...</p>
+      )}
+    </motion.div>
+  );
+};
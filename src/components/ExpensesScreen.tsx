@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Trash2, Check, Calendar, DollarSign, ChevronLeft, ChevronRight, Receipt } from 'lucide-react';
+import { useExpenses, useClients, useServices, saveExpense, deleteExpense } from '../hooks/useSupabase';
+import { Expense } from '../lib/supabase';
+import { expenseCategoryLabels, sumExpenses } from '../lib/expenses';
+import { toDateKey, formatDateKey, startOfMonth } from '../lib/dates';
+
+interface ExpenseFormData {
+  category: Expense['category'];
+  amount: string;
+  spentAt: string;
+  description: string;
+  clientId: string;
+  serviceId: string;
+}
+
+const toFormData = (expense?: Expense): ExpenseFormData => ({
+  category: expense?.category ?? 'linha',
+  amount: expense ? String(expense.amount) : '',
+  spentAt: expense?.spent_at ?? toDateKey(new Date()),
+  description: expense?.description ?? '',
+  clientId: expense?.client_id ?? '',
+  serviceId: expense?.service_id ?? ''
+});
+
+export const ExpensesScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { expenses, loading, refetch } = useExpenses();
+  const { clients } = useClients();
+  const { services } = useServices();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ExpenseFormData>(toFormData());
+  const [saving, setSaving] = useState(false);
+
+  const monthKey = toDateKey(month).slice(0, 7);
+  const monthlyExpenses = expenses.filter(expense => expense.spent_at.startsWith(monthKey));
+  const monthlyTotal = sumExpenses(expenses, monthKey);
+
+  // Services offered for linking, narrowed to the chosen client
+  const linkableServices = services.filter(service => !formData.clientId || service.client_id === formData.clientId);
+
+  const changeMonth = (offset: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const handleNew = () => {
+    setFormData(toFormData());
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (expense: Expense) => {
+    setFormData(toFormData(expense));
+    setEditingId(expense.id);
+    setShowForm(true);
+  };
+
+  const handleServiceChange = (serviceId: string) => {
+    const service = services.find(s => s.id === serviceId);
+    setFormData(prev => ({
+      ...prev,
+      serviceId,
+      clientId: service?.client_id ?? prev.clientId
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(formData.amount.replace(',', '.'));
+    if (!amount || amount <= 0) {
+      alert('Informe um valor válido.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveExpense({
+        category: formData.category,
+        amount,
+        spent_at: formData.spentAt,
+        description: formData.description.trim() || null,
+        client_id: formData.clientId || null,
+        service_id: formData.serviceId || null
+      }, editingId ?? undefined);
+
+      setShowForm(false);
+      setEditingId(null);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao salvar despesa:', error);
+      alert('Erro ao salvar despesa. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (expenseId: string) => {
+    if (!confirm('Excluir esta despesa?')) return;
+
+    try {
+      await deleteExpense(expenseId);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao excluir despesa:', error);
+      alert('Erro ao excluir despesa. Tente novamente.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800 flex-1">Despesas</h1>
+          {!showForm && (
+            <button
+              onClick={handleNew}
+              className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
+              title="Nova despesa"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        {/* Month Selector */}
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={() => changeMonth(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <div className="text-center">
+            <p className="font-semibold text-gray-800 capitalize">
+              {month.toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}
+            </p>
+            <p className="text-red-600 text-sm font-medium">R$ {monthlyTotal.toFixed(2)}</p>
+          </div>
+          <button
+            onClick={() => changeMonth(1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Expense Form */}
+        {showForm && (
+          <motion.form
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            onSubmit={handleSubmit}
+            className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+          >
+            <h3 className="text-lg font-bold text-gray-800">
+              {editingId ? 'Editar Despesa' : 'Nova Despesa'}
+            </h3>
+
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(expenseCategoryLabels) as Expense['category'][]).map((category) => (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, category }))}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    formData.category === category
+                      ? 'bg-green-500 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {expenseCategoryLabels[category]}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  <DollarSign className="w-4 h-4 inline mr-1" />
+                  Valor
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                  placeholder="0,00"
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  <Calendar className="w-4 h-4 inline mr-1" />
+                  Data
+                </label>
+                <input
+                  type="date"
+                  value={formData.spentAt}
+                  onChange={(e) => setFormData(prev => ({ ...prev, spentAt: e.target.value }))}
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Descrição</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Ex: Zíperes invisíveis, troca da correia"
+                className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+
+            {/* Optional Links */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Cliente</label>
+                <select
+                  value={formData.clientId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value, serviceId: '' }))}
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white"
+                >
+                  <option value="">Nenhum</option>
+                  {clients.map((client) => (
+                    <option key={client.id} value={client.id}>{client.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Serviço</label>
+                <select
+                  value={formData.serviceId}
+                  onChange={(e) => handleServiceChange(e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white"
+                >
+                  <option value="">Nenhum</option>
+                  {linkableServices.map((service) => (
+                    <option key={service.id} value={service.id}>
+                      {service.description} · {service.client_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 p-3 rounded-xl font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-green-500 text-white p-3 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-5 h-5" />
+                <span>{saving ? 'Salvando...' : 'Salvar'}</span>
+              </button>
+            </div>
+          </motion.form>
+        )}
+
+        {/* Expense List */}
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-gray-200 animate-pulse rounded-xl h-16"></div>
+            ))}
+          </div>
+        ) : monthlyExpenses.length > 0 ? (
+          <div className="space-y-3">
+            {monthlyExpenses.map((expense, index) => {
+              const service = services.find(s => s.id === expense.service_id);
+              const client = clients.find(c => c.id === expense.client_id);
+
+              return (
+                <motion.div
+                  key={expense.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="bg-white rounded-xl p-4 shadow-sm flex items-center justify-between"
+                >
+                  <button onClick={() => handleEdit(expense)} className="flex-1 min-w-0 text-left">
+                    <p className="font-semibold text-gray-800 truncate">
+                      {expense.description || expenseCategoryLabels[expense.category]}
+                    </p>
+                    <p className="text-gray-500 text-sm truncate">
+                      {expenseCategoryLabels[expense.category]} · {formatDateKey(expense.spent_at)}
+                      {service ? ` · ${service.description}` : client ? ` · ${client.name}` : ''}
+                    </p>
+                  </button>
+                  <span className="font-bold text-red-600 ml-3">R$ {expense.amount.toFixed(2)}</span>
+                  <button
+                    onClick={() => handleDelete(expense.id)}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors ml-1"
+                    title="Excluir despesa"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </motion.div>
+              );
+            })}
+          </div>
+        ) : !showForm && (
+          <div className="text-center py-12">
+            <Receipt className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Nenhuma despesa neste mês</p>
+            <p className="text-gray-400 text-sm">Toque em + para registrar um gasto</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Timer } from 'lucide-react';
+import { Service } from '../lib/supabase';
+import { getHourlyRateBy } from '../lib/workTime';
+import { formatMinutes } from '../lib/dates';
+
+interface HourlyRateCardProps {
+  services: Service[];
+}
+
+export const HourlyRateCard: React.FC<HourlyRateCardProps> = ({ services }) => {
+  const [groupBy, setGroupBy] = useState<'client' | 'type'>('type');
+  const timedServices = services.filter(service => service.minutes_worked > 0);
+
+  if (timedServices.length === 0) return null;
+
+  const totalValue = timedServices.reduce((sum, service) => sum + service.value, 0);
+  const totalMinutes = timedServices.reduce((sum, service) => sum + service.minutes_worked, 0);
+  const groups = getHourlyRateBy(timedServices, groupBy).slice(0, 5);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+      className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center">
+          <Timer className="w-5 h-5 mr-2 text-green-500" />
+          Valor da Hora
+        </h3>
+        <div className="text-right">
+          <p className="font-bold text-green-700">R$ {(totalValue / (totalMinutes / 60)).toFixed(2)}/h</p>
+          <p className="text-gray-500 text-xs">{formatMinutes(totalMinutes)} medidos</p>
+        </div>
+      </div>
+
+      <div className="flex bg-gray-100 rounded-xl p-1">
+        {([['type', 'Por serviço'], ['client', 'Por cliente']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setGroupBy(value)}
+            className={`flex-1 py-1 rounded-lg text-sm font-medium transition-all ${
+              groupBy === value ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {groups.map((group) => (
+          <div key={group.name} className="flex justify-between text-sm">
+            <span className="text-gray-700 truncate">
+              {group.name} <span className="text-gray-400">({formatMinutes(group.minutes)})</span>
+            </span>
+            <span className="font-semibold text-gray-800 ml-2 whitespace-nowrap">R$ {group.rate.toFixed(2)}/h</span>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
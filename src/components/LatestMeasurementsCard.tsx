@@ -0,0 +1,50 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { Ruler } from 'lucide-react';
+import { useClientMeasurements } from '../hooks/useSupabase';
+import { getMeasurementEntries } from '../lib/measurements';
+import { formatDateKey } from '../lib/dates';
+
+interface LatestMeasurementsCardProps {
+  clientId: string;
+}
+
+export const LatestMeasurementsCard: React.FC<LatestMeasurementsCardProps> = ({ clientId }) => {
+  const navigate = useNavigate();
+  const { measurements, loading } = useClientMeasurements(clientId);
+  const latest = measurements[0];
+
+  if (loading) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-green-50 border border-green-100 rounded-xl p-3"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-700 flex items-center">
+          <Ruler className="w-4 h-4 mr-2 text-green-600" />
+          {latest ? `Medidas de ${formatDateKey(latest.measured_at)}` : 'Sem medidas registradas'}
+        </p>
+        <button
+          type="button"
+          onClick={() => navigate(`/clients/${clientId}/measurements`)}
+          className="text-green-600 text-xs font-medium"
+        >
+          {latest ? 'Ver todas' : 'Registrar'}
+        </button>
+      </div>
+      {latest && (
+        <div className="flex flex-wrap gap-2">
+          {getMeasurementEntries(latest).map((entry) => (
+            <span key={entry.label} className="px-2 py-1 bg-white rounded-lg text-xs text-gray-700">
+              {entry.label}: <span className="font-semibold">{entry.value}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ChevronRight } from 'lucide-react';
+import { Material } from '../lib/supabase';
+import { getLowStockMaterials, formatQuantity } from '../lib/materials';
+
+interface LowStockCardProps {
+  materials: Material[];
+}
+
+export const LowStockCard: React.FC<LowStockCardProps> = ({ materials }) => {
+  const navigate = useNavigate();
+  const lowStock = getLowStockMaterials(materials);
+
+  if (lowStock.length === 0) return null;
+
+  return (
+    <motion.button
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      onClick={() => navigate('/materials')}
+      className="w-full bg-red-50 border border-red-200 rounded-2xl p-4 text-left"
+    >
+      <div className="flex items-center justify-between">
+        <p className="font-bold text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          Estoque baixo
+        </p>
+        <ChevronRight className="w-4 h-4 text-red-400" />
+      </div>
+      <p className="text-red-600 text-sm mt-1">
+        {lowStock
+          .slice(0, 3)
+          .map(material => `${material.name} (${formatQuantity(material.quantity, material.unit)})`)
+          .join(', ')}
+        {lowStock.length > 3 && ` e mais ${lowStock.length - 3}`}
+      </p>
+    </motion.button>
+  );
+};
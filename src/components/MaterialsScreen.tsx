@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Trash2, Check, Package, AlertTriangle } from 'lucide-react';
+import { useMaterials, saveMaterial, deleteMaterial } from '../hooks/useSupabase';
+import { Material } from '../lib/supabase';
+import { materialUnitOptions, isLowStock, formatQuantity } from '../lib/materials';
+
+interface MaterialFormData {
+  name: string;
+  unit: string;
+  quantity: string;
+  costPerUnit: string;
+  lowStockThreshold: string;
+}
+
+const toFormData = (material?: Material): MaterialFormData => ({
+  name: material?.name ?? '',
+  unit: material?.unit ?? 'un',
+  quantity: material ? String(material.quantity) : '',
+  costPerUnit: material ? String(material.cost_per_unit) : '',
+  lowStockThreshold: material ? String(material.low_stock_threshold) : ''
+});
+
+const parseNumber = (value: string) => parseFloat(value.replace(',', '.')) || 0;
+
+export const MaterialsScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { materials, loading, refetch } = useMaterials();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<MaterialFormData>(toFormData());
+  const [saving, setSaving] = useState(false);
+
+  // Low stock first, so what needs buying is at the top
+  const sortedMaterials = [...materials].sort((a, b) => Number(isLowStock(b)) - Number(isLowStock(a)));
+
+  const handleNew = () => {
+    setFormData(toFormData());
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (material: Material) => {
+    setFormData(toFormData(material));
+    setEditingId(material.id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    setSaving(true);
+
+    try {
+      await saveMaterial({
+        name: formData.name.trim(),
+        unit: formData.unit.trim() || 'un',
+        quantity: parseNumber(formData.quantity),
+        cost_per_unit: parseNumber(formData.costPerUnit),
+        low_stock_threshold: parseNumber(formData.lowStockThreshold)
+      }, editingId ?? undefined);
+
+      setShowForm(false);
+      setEditingId(null);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao salvar material:', error);
+      alert('Erro ao salvar material. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (material: Material) => {
+    if (!confirm(`Excluir "${material.name}" do estoque?`)) return;
+
+    try {
+      await deleteMaterial(material.id);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao excluir material:', error);
+      // 23503: still referenced by service_materials
+      if ((error as { code?: string }).code === '23503') {
+        alert('Este material já foi usado em serviços e não pode ser excluído.');
+      } else {
+        alert('Erro ao excluir material. Tente novamente.');
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800 flex-1">Estoque de Materiais</h1>
+          {!showForm && (
+            <button
+              onClick={handleNew}
+              className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
+              title="Novo material"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Material Form */}
+        {showForm && (
+          <motion.form
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            onSubmit={handleSubmit}
+            className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+          >
+            <h3 className="text-lg font-bold text-gray-800">
+              {editingId ? 'Editar Material' : 'Novo Material'}
+            </h3>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Nome</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Ex: Zíper invisível 20cm"
+                className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Unidade</label>
+              <div className="flex flex-wrap gap-2">
+                {materialUnitOptions.map((unit) => (
+                  <button
+                    key={unit}
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, unit }))}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      formData.unit === unit
+                        ? 'bg-green-500 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {unit}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Em estoque</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.quantity}
+                  onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value }))}
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Custo/{formData.unit}</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.costPerUnit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, costPerUnit: e.target.value }))}
+                  placeholder="R$"
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Mínimo</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.lowStockThreshold}
+                  onChange={(e) => setFormData(prev => ({ ...prev, lowStockThreshold: e.target.value }))}
+                  className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 p-3 rounded-xl font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-green-500 text-white p-3 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-5 h-5" />
+                <span>{saving ? 'Salvando...' : 'Salvar'}</span>
+              </button>
+            </div>
+          </motion.form>
+        )}
+
+        {/* Material List */}
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-gray-200 animate-pulse rounded-xl h-16"></div>
+            ))}
+          </div>
+        ) : sortedMaterials.length > 0 ? (
+          <div className="space-y-3">
+            {sortedMaterials.map((material, index) => {
+              const lowStock = isLowStock(material);
+
+              return (
+                <motion.div
+                  key={material.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className={`bg-white rounded-xl p-4 shadow-sm flex items-center justify-between ${
+                    lowStock ? 'border-2 border-red-200' : ''
+                  }`}
+                >
+                  <button onClick={() => handleEdit(material)} className="flex-1 min-w-0 text-left">
+                    <p className="font-semibold text-gray-800 truncate flex items-center">
+                      {lowStock && <AlertTriangle className="w-4 h-4 mr-1 text-red-500 flex-shrink-0" />}
+                      {material.name}
+                    </p>
+                    <p className="text-gray-500 text-sm">
+                      R$ {material.cost_per_unit.toFixed(2)}/{material.unit}
+                      {material.low_stock_threshold > 0 && ` · mínimo ${formatQuantity(material.low_stock_threshold, material.unit)}`}
+                    </p>
+                  </button>
+                  <span className={`font-bold ml-3 ${lowStock ? 'text-red-600' : 'text-gray-800'}`}>
+                    {formatQuantity(material.quantity, material.unit)}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(material)}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors ml-1"
+                    title="Excluir material"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </motion.div>
+              );
+            })}
+          </div>
+        ) : !showForm && (
+          <div className="text-center py-12">
+            <Package className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Nenhum material cadastrado</p>
+            <p className="text-gray-400 text-sm">Toque em + para cadastrar tecidos, zíperes, elásticos...</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
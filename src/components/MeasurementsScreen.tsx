@@ -0,0 +1,333 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Ruler, Plus, X, Trash2, Check, Calendar } from 'lucide-react';
+import {
+  useClients,
+  useClientMeasurements,
+  saveClientMeasurement,
+  deleteClientMeasurement
+} from '../hooks/useSupabase';
+import { ClientMeasurement } from '../lib/supabase';
+import { measurementFields, getMeasurementEntries, MeasurementField } from '../lib/measurements';
+import { toDateKey, formatDateKey } from '../lib/dates';
+
+interface MeasurementFormData {
+  measuredAt: string;
+  values: Record<MeasurementField, string>;
+  extras: { name: string; value: string }[];
+  notes: string;
+}
+
+const emptyValues: Record<MeasurementField, string> = {
+  bust: '',
+  waist: '',
+  hip: '',
+  length: '',
+  sleeve: ''
+};
+
+// Form prefilled from a measurement set (or blank)
+const toFormData = (measurement?: ClientMeasurement): MeasurementFormData => ({
+  measuredAt: toDateKey(new Date()),
+  values: measurement
+    ? {
+        bust: measurement.bust?.toString() ?? '',
+        waist: measurement.waist?.toString() ?? '',
+        hip: measurement.hip?.toString() ?? '',
+        length: measurement.length?.toString() ?? '',
+        sleeve: measurement.sleeve?.toString() ?? ''
+      }
+    : emptyValues,
+  extras: measurement
+    ? Object.entries(measurement.other_measurements || {}).map(([name, value]) => ({ name, value: String(value) }))
+    : [],
+  notes: measurement?.notes ?? ''
+});
+
+const parseMeasurement = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+};
+
+export const MeasurementsScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { id: clientId } = useParams<{ id: string }>();
+  const { clients } = useClients();
+  const { measurements, loading, refetch } = useClientMeasurements(clientId);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<MeasurementFormData>(toFormData());
+  const [saving, setSaving] = useState(false);
+
+  const client = clients.find(c => c.id === clientId);
+
+  const handleNewSet = () => {
+    // Start from the latest set, so only what changed needs to be typed
+    setFormData(toFormData(measurements[0]));
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const handleEditSet = (measurement: ClientMeasurement) => {
+    setFormData({ ...toFormData(measurement), measuredAt: measurement.measured_at });
+    setEditingId(measurement.id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clientId) return;
+
+    const otherMeasurements: Record<string, number> = {};
+    formData.extras.forEach(extra => {
+      const value = parseMeasurement(extra.value);
+      if (extra.name.trim() && value !== null) {
+        otherMeasurements[extra.name.trim()] = value;
+      }
+    });
+
+    setSaving(true);
+
+    try {
+      await saveClientMeasurement({
+        client_id: clientId,
+        measured_at: formData.measuredAt,
+        bust: parseMeasurement(formData.values.bust),
+        waist: parseMeasurement(formData.values.waist),
+        hip: parseMeasurement(formData.values.hip),
+        length: parseMeasurement(formData.values.length),
+        sleeve: parseMeasurement(formData.values.sleeve),
+        other_measurements: otherMeasurements,
+        notes: formData.notes || null
+      }, editingId ?? undefined);
+
+      setShowForm(false);
+      setEditingId(null);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao salvar medidas:', error);
+      alert('Erro ao salvar medidas. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (measurementId: string) => {
+    if (!confirm('Excluir este conjunto de medidas?')) return;
+
+    try {
+      await deleteClientMeasurement(measurementId);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao excluir medidas:', error);
+      alert('Erro ao excluir medidas. Tente novamente.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1">
+            <h1 className="text-xl font-bold text-gray-800">Medidas</h1>
+            {client && <p className="text-gray-600 text-sm">{client.name}</p>}
+          </div>
+          {!showForm && (
+            <button
+              onClick={handleNewSet}
+              className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
+              title="Novas medidas"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Measurement Form */}
+        {showForm && (
+          <motion.form
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            onSubmit={handleSubmit}
+            className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+          >
+            <h3 className="text-lg font-bold text-gray-800">
+              {editingId ? 'Editar Medidas' : 'Novas Medidas'}
+            </h3>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                <Calendar className="w-4 h-4 inline mr-2" />
+                Data
+              </label>
+              <input
+                type="date"
+                value={formData.measuredAt}
+                onChange={(e) => setFormData(prev => ({ ...prev, measuredAt: e.target.value }))}
+                className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {measurementFields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">{field.label} (cm)</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={formData.values[field.key]}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      values: { ...prev.values, [field.key]: e.target.value }
+                    }))}
+                    className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Other Measurements */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Outras medidas</label>
+              {formData.extras.map((extra, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={extra.name}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      extras: prev.extras.map((item, i) => (i === index ? { ...item, name: e.target.value } : item))
+                    }))}
+                    placeholder="Ex: Ombro"
+                    className="flex-1 min-w-0 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={extra.value}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      extras: prev.extras.map((item, i) => (i === index ? { ...item, value: e.target.value } : item))
+                    }))}
+                    placeholder="cm"
+                    className="w-20 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      extras: prev.extras.filter((_, i) => i !== index)
+                    }))}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, extras: [...prev.extras, { name: '', value: '' }] }))}
+                className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm hover:bg-gray-200 transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Adicionar medida
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Observações</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                placeholder="Ex: Prefere cintura mais folgada"
+                className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 p-3 rounded-xl font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-green-500 text-white p-3 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-5 h-5" />
+                <span>{saving ? 'Salvando...' : 'Salvar'}</span>
+              </button>
+            </div>
+          </motion.form>
+        )}
+
+        {/* Measurement History */}
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="bg-gray-200 animate-pulse rounded-xl h-24"></div>
+            ))}
+          </div>
+        ) : measurements.length > 0 ? (
+          <div className="space-y-3">
+            {measurements.map((measurement, index) => (
+              <motion.div
+                key={measurement.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className={`bg-white rounded-xl p-4 shadow-sm ${index === 0 ? 'border-2 border-green-200' : ''}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <button onClick={() => handleEditSet(measurement)} className="text-left">
+                    <p className="font-bold text-gray-800">{formatDateKey(measurement.measured_at)}</p>
+                    {index === 0 && <p className="text-green-600 text-xs font-medium">Mais recente</p>}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(measurement.id)}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                    title="Excluir medidas"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {getMeasurementEntries(measurement).map((entry) => (
+                    <div key={entry.label} className="bg-gray-50 rounded-lg p-2 text-center">
+                      <p className="text-gray-500 text-xs">{entry.label}</p>
+                      <p className="font-semibold text-gray-800">{entry.value}</p>
+                    </div>
+                  ))}
+                </div>
+                {measurement.notes && (
+                  <p className="text-gray-600 text-sm mt-2">{measurement.notes}</p>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        ) : !showForm && (
+          <div className="text-center py-12">
+            <Ruler className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Ainda não há medidas</p>
+            <p className="text-gray-400 text-sm">Toque em + para registrar as medidas</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { MessageCircle } from 'lucide-react';
+import { updateProfile } from '../hooks/useSupabase';
+import { Profile } from '../lib/supabase';
+import { MessageTemplateKey, messageTemplateOptions, messagePlaceholders, getMessageTemplate } from '../lib/messages';
+
+interface MessageTemplatesCardProps {
+  profile: Profile | null;
+  onSaved: () => void;
+}
+
+export const MessageTemplatesCard: React.FC<MessageTemplatesCardProps> = ({ profile, onSaved }) => {
+  const [templates, setTemplates] = useState<Record<MessageTemplateKey, string>>(
+    () => Object.fromEntries(messageTemplateOptions.map(option => [option.key, option.defaultText])) as Record<MessageTemplateKey, string>
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setTemplates(Object.fromEntries(
+        messageTemplateOptions.map(option => [option.key, getMessageTemplate(profile, option.key)])
+      ) as Record<MessageTemplateKey, string>);
+    }
+  }, [profile]);
+
+  const handleSave = async () => {
+    // Only keep what differs from the default text, so future default changes still apply
+    const customized = Object.fromEntries(
+      messageTemplateOptions
+        .filter(option => templates[option.key].trim() && templates[option.key].trim() !== option.defaultText)
+        .map(option => [option.key, templates[option.key].trim()])
+    );
+
+    setSaving(true);
+
+    try {
+      await updateProfile({ message_templates: customized });
+      onSaved();
+    } catch (error) {
+      console.error('Erro ao salvar mensagens:', error);
+      alert('Erro ao salvar mensagens. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm space-y-3">
+      <h3 className="text-lg font-bold text-gray-800 flex items-center">
+        <MessageCircle className="w-5 h-5 mr-2 text-green-500" />
+        Mensagens de WhatsApp
+      </h3>
+      <p className="text-gray-500 text-sm">
+        Use {messagePlaceholders.join(', ')}. Deixe em branco para usar o texto padrão.
+      </p>
+
+      {messageTemplateOptions.map((option) => (
+        <div key={option.key} className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700">{option.label}</label>
+          <textarea
+            value={templates[option.key]}
+            onChange={(e) => setTemplates(prev => ({ ...prev, [option.key]: e.target.value }))}
+            placeholder={option.defaultText}
+            rows={2}
+            className="w-full p-3 border border-gray-300 rounded-xl text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full p-3 bg-green-500 text-white rounded-xl font-semibold hover:bg-green-600 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Salvando...' : 'Salvar mensagens'}
+      </button>
+    </div>
+  );
+};
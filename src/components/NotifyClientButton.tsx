@@ -0,0 +1,46 @@
+import React from 'react';
+import { MessageCircle } from 'lucide-react';
+import { useProfile, useServicePayments } from '../hooks/useSupabase';
+import { Service, ServicePayment } from '../lib/supabase';
+import { MessageTemplateKey, getMessageTemplate, fillTemplate, getServiceMessageValues } from '../lib/messages';
+import { getWhatsAppUrl } from '../lib/phone';
+
+interface NotifyClientButtonProps {
+  service: Service;
+  phone: string | null;
+  templateKey: MessageTemplateKey;
+  label?: string;
+  payments?: ServicePayment[];
+}
+
+// Opens WhatsApp with the template for this service already filled in
+export const NotifyClientButton: React.FC<NotifyClientButtonProps> = ({
+  service,
+  phone,
+  templateKey,
+  label = 'Avisar cliente',
+  payments
+}) => {
+  const { profile } = useProfile();
+  // Callers that already track the payments pass them, so the balance stays current
+  const { payments: fetchedPayments } = useServicePayments(service.id);
+
+  const message = fillTemplate(
+    getMessageTemplate(profile, templateKey),
+    getServiceMessageValues(service, payments ?? fetchedPayments)
+  );
+  const url = getWhatsAppUrl(phone, message);
+
+  return (
+    <button
+      type="button"
+      onClick={() => url && window.open(url, '_blank')}
+      disabled={!url}
+      title={url ? message : 'Cliente sem WhatsApp cadastrado'}
+      className="px-3 py-2 bg-green-500 text-white rounded-full text-sm font-medium hover:bg-green-600 transition-colors flex items-center disabled:opacity-40"
+    >
+      <MessageCircle className="w-4 h-4 mr-1" />
+      {label}
+    </button>
+  );
+};
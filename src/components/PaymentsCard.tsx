@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Wallet, Trash2, Plus } from 'lucide-react';
+import { NotifyClientButton } from './NotifyClientButton';
+import { useServicePayments, addServicePayment, deleteServicePayment } from '../hooks/useSupabase';
+import { getPaidAmount, getReceivedAmount, getOutstandingBalance, paymentMethodLabels } from '../lib/payments';
+import { Service, ServicePayment } from '../lib/supabase';
+import { toDateKey } from '../lib/dates';
+
+interface PaymentsCardProps {
+  service: Service;
+  clientPhone?: string | null;
+  onFullyPaid?: () => void;
+}
+
+export const PaymentsCard: React.FC<PaymentsCardProps> = ({ service, clientPhone = null, onFullyPaid }) => {
+  const { payments, refetch } = useServicePayments(service.id);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<ServicePayment['method']>('pix');
+  const [paidAt, setPaidAt] = useState(toDateKey(new Date()));
+  const [loading, setLoading] = useState(false);
+
+  const paidAmount = getPaidAmount(service, payments);
+  const receivedAmount = getReceivedAmount(service, payments);
+  const balance = getOutstandingBalance(service, payments);
+
+  const handleAddPayment = async () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      alert('Informe o valor recebido.');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await addServicePayment({
+        service_id: service.id,
+        amount: value,
+        method,
+        paid_at: paidAt
+      });
+
+      setAmount('');
+      await refetch();
+
+      if (service.status !== 'paid' && paidAmount + value >= service.value && onFullyPaid
+        && confirm('O valor total foi recebido. Marcar serviço como pago?')) {
+        onFullyPaid();
+      }
+    } catch (error) {
+      console.error('Erro ao registrar pagamento:', error);
+      alert('Erro ao registrar pagamento. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeletePayment = async (paymentId: string) => {
+    if (!confirm('Excluir este pagamento?')) return;
+
+    try {
+      await deleteServicePayment(paymentId);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao excluir pagamento:', error);
+      alert('Erro ao excluir pagamento. Tente novamente.');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center">
+          <Wallet className="w-5 h-5 mr-2 text-green-500" />
+          Pagamentos
+        </h3>
+        {balance > 0 && (
+          <NotifyClientButton
+            service={service}
+            payments={payments}
+            phone={clientPhone}
+            templateKey="payment_reminder"
+            label="Lembrar"
+          />
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-gray-50 rounded-xl p-2">
+          <p className="text-gray-600 text-xs">Total</p>
+          <p className="font-bold text-gray-800">R$ {service.value.toFixed(2)}</p>
+        </div>
+        <div className="bg-green-50 rounded-xl p-2">
+          <p className="text-gray-600 text-xs">Recebido</p>
+          <p className="font-bold text-green-600">R$ {receivedAmount.toFixed(2)}</p>
+        </div>
+        <div className={`rounded-xl p-2 ${balance > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+          <p className="text-gray-600 text-xs">Falta</p>
+          <p className={`font-bold ${balance > 0 ? 'text-red-600' : 'text-gray-800'}`}>
+            R$ {balance.toFixed(2)}
+          </p>
+        </div>
+      </div>
+
+      {/* Payment List */}
+      {payments.length > 0 && (
+        <div className="space-y-2">
+          {payments.map((payment) => (
+            <div key={payment.id} className="flex items-center justify-between border border-gray-100 rounded-xl p-3">
+              <div>
+                <p className="font-semibold text-gray-800">R$ {payment.amount.toFixed(2)}</p>
+                <p className="text-gray-500 text-xs">
+                  {paymentMethodLabels[payment.method]} · {new Date(payment.paid_at + 'T00:00:00').toLocaleDateString('pt-BR')}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDeletePayment(payment.id)}
+                className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                title="Excluir pagamento"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New Payment */}
+      {balance > 0 && (
+        <div className="space-y-3 border-t border-gray-100 pt-4">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={`Ex: ${balance.toFixed(2)}`}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            <input
+              type="date"
+              value={paidAt}
+              onChange={(e) => setPaidAt(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            {(Object.keys(paymentMethodLabels) as ServicePayment['method'][]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setMethod(key)}
+                className={`flex-1 py-2 rounded-xl text-sm font-medium transition-colors ${
+                  method === key
+                    ? 'bg-green-500 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {paymentMethodLabels[key]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setAmount(balance.toFixed(2))}
+              className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm hover:bg-green-200 transition-colors"
+            >
+              Restante
+            </button>
+            <button
+              type="button"
+              onClick={() => setAmount((service.value / 2).toFixed(2))}
+              className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm hover:bg-green-200 transition-colors"
+            >
+              Sinal 50%
+            </button>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleAddPayment}
+            disabled={loading}
+            className="w-full bg-green-500 text-white p-3 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-5 h-5" />
+            <span>{loading ? 'Salvando...' : 'Registrar Pagamento'}</span>
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+};
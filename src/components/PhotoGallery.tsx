@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Camera, Trash2, X, ImagePlus } from 'lucide-react';
+import { useServicePhotos, uploadServicePhoto, deleteServicePhoto } from '../hooks/useSupabase';
+import { ServicePhoto } from '../lib/supabase';
+
+const photoKindLabels: Record<ServicePhoto['kind'], string> = {
+  reference: 'Referência',
+  fabric: 'Tecido',
+  before: 'Antes',
+  after: 'Depois'
+};
+
+interface PhotoGalleryProps {
+  serviceId: string;
+}
+
+export const PhotoGallery: React.FC<PhotoGalleryProps> = ({ serviceId }) => {
+  const { photos, loading, refetch } = useServicePhotos(serviceId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<ServicePhoto['kind']>('reference');
+  const [uploading, setUploading] = useState(false);
+  const [selectedPhoto, setSelectedPhoto] = useState<(ServicePhoto & { url: string }) | null>(null);
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    let uploaded = 0;
+
+    try {
+      for (const file of files) {
+        await uploadServicePhoto(serviceId, file, kind);
+        uploaded++;
+      }
+    } catch (error) {
+      console.error('Erro ao enviar foto:', error);
+      // The files before the failure are already saved: say so, to avoid sending them twice
+      alert(uploaded > 0
+        ? `Erro ao enviar foto. ${uploaded} de ${files.length} foram enviadas; envie só as que faltam.`
+        : 'Erro ao enviar foto. Tente novamente.');
+    } finally {
+      setUploading(false);
+      refetch();
+    }
+  };
+
+  const handleDelete = async (photo: ServicePhoto) => {
+    if (!confirm('Excluir esta foto?')) return;
+
+    try {
+      await deleteServicePhoto(photo);
+      setSelectedPhoto(null);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao excluir foto:', error);
+      alert('Erro ao excluir foto. Tente novamente.');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+    >
+      <h3 className="text-lg font-bold text-gray-800 flex items-center">
+        <Camera className="w-5 h-5 mr-2 text-green-500" />
+        Fotos
+      </h3>
+
+      {/* Gallery */}
+      {loading ? (
+        <div className="grid grid-cols-3 gap-2">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="bg-gray-200 animate-pulse rounded-xl aspect-square"></div>
+          ))}
+        </div>
+      ) : photos.length > 0 ? (
+        <div className="grid grid-cols-3 gap-2">
+          {photos.map((photo) => (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setSelectedPhoto(photo)}
+              className="relative aspect-square rounded-xl overflow-hidden bg-gray-100"
+            >
+              <img src={photo.url} alt={photoKindLabels[photo.kind]} className="w-full h-full object-cover" />
+              <span className="absolute bottom-1 left-1 px-2 py-0.5 bg-black/50 text-white text-xs rounded-full">
+                {photoKindLabels[photo.kind]}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-sm">Nenhuma foto ainda. Adicione a referência, o tecido ou a peça pronta.</p>
+      )}
+
+      {/* Upload */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          {(Object.keys(photoKindLabels) as ServicePhoto['kind'][]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setKind(key)}
+              className={`flex-1 py-1 rounded-full text-xs font-medium transition-colors ${
+                kind === key
+                  ? 'bg-green-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {photoKindLabels[key]}
+            </button>
+          ))}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFilesSelected}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="w-full border-2 border-dashed border-gray-300 rounded-xl p-3 text-gray-600 hover:border-green-400 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <ImagePlus className="w-5 h-5" />
+          <span className="font-medium">{uploading ? 'Enviando...' : 'Adicionar fotos'}</span>
+        </button>
+      </div>
+
+      {/* Full-size Viewer */}
+      {selectedPhoto && (
+        <div className="fixed inset-0 z-50 bg-black/90 flex flex-col">
+          <div className="flex items-center justify-between p-4 text-white">
+            <span className="font-medium">{photoKindLabels[selectedPhoto.kind]}</span>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => handleDelete(selectedPhoto)}
+                className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                title="Excluir foto"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedPhoto(null)}
+                className="p-2 hover:bg-white/10 rounded-full transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+          <div className="flex-1 flex items-center justify-center p-4">
+            <img src={selectedPhoto.url} alt={photoKindLabels[selectedPhoto.kind]} className="max-w-full max-h-full object-contain" />
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Layers, Plus, Trash2, Check, PackageCheck, AlertTriangle } from 'lucide-react';
+import { createPieceLot, deliverLotPieces, returnLotDefects, deletePieceLot } from '../hooks/useSupabase';
+import { Client, PieceCounter, PieceLot, PieceRate } from '../lib/supabase';
+import { lotSizeOptions, sumSizes, formatLotSizes, getLotPending, getLotProgress } from '../lib/pieceLots';
+import { findPieceRate, getPieceTypes } from '../lib/pieceRates';
+
+interface PieceLotsSectionProps {
+  lots: PieceLot[];
+  counters: PieceCounter[];
+  clients: Client[];
+  rates: PieceRate[];
+  onChange: () => void;
+}
+
+interface LotFormData {
+  clientName: string;
+  code: string;
+  pieceType: string;
+  sizes: Record<string, string>;
+  quantity: string;
+  notes: string;
+}
+
+const emptyForm: LotFormData = { clientName: '', code: '', pieceType: '', sizes: {}, quantity: '', notes: '' };
+
+export const PieceLotsSection: React.FC<PieceLotsSectionProps> = ({ lots, counters, clients, rates, onChange }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [showClosed, setShowClosed] = useState(false);
+  const [formData, setFormData] = useState<LotFormData>(emptyForm);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const sizes: Record<string, number> = {};
+  Object.entries(formData.sizes).forEach(([size, value]) => {
+    const quantity = parseInt(value) || 0;
+    if (quantity > 0) sizes[size] = quantity;
+  });
+  const gridTotal = sumSizes(sizes);
+
+  const openLots = lots.filter(lot => lot.status === 'open');
+  const closedLots = lots.filter(lot => lot.status === 'closed');
+  const selectedClientId = clients.find(client => client.name === formData.clientName)?.id;
+
+  const getCounter = (lot: PieceLot) => counters.find(counter => counter.id === lot.counter_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = gridTotal || parseInt(formData.quantity) || 0;
+
+    if (!formData.clientName || !formData.code.trim() || quantity <= 0) {
+      alert('Informe a cliente, o código do lote e a quantidade de peças.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await createPieceLot(formData.clientName, {
+        code: formData.code.trim(),
+        piece_type: formData.pieceType.trim() || null,
+        sizes,
+        quantity,
+        notes: formData.notes.trim() || null
+      });
+
+      setFormData(emptyForm);
+      setShowForm(false);
+      onChange();
+    } catch (error) {
+      console.error('Erro ao criar lote:', error);
+      alert('Erro ao criar lote. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (lot: PieceLot, kind: 'deliver' | 'defect') => {
+    const counter = getCounter(lot);
+    if (!counter) return;
+
+    const pieces = parseInt(amounts[lot.id] ?? String(getLotPending(lot))) || 0;
+    const limit = kind === 'deliver' ? getLotPending(lot) : lot.delivered;
+
+    if (pieces <= 0 || pieces > limit) {
+      alert(kind === 'deliver'
+        ? `Informe até ${limit} peças pendentes para entregar.`
+        : `Informe até ${limit} peças entregues para devolver com defeito.`);
+      return;
+    }
+
+    const rate = findPieceRate(rates, counter.client_id, lot.piece_type ?? '')?.rate;
+
+    try {
+      if (kind === 'deliver') {
+        await deliverLotPieces(lot, counter.client_name, pieces, rate);
+      } else {
+        await returnLotDefects(lot, counter.client_name, pieces, rate);
+      }
+
+      setAmounts(prev => {
+        const next = { ...prev };
+        delete next[lot.id];
+        return next;
+      });
+      onChange();
+    } catch (error) {
+      console.error('Erro ao atualizar lote:', error);
+      alert('Erro ao atualizar lote. Tente novamente.');
+    }
+  };
+
+  const handleDelete = async (lot: PieceLot) => {
+    if (!confirm(`Excluir o lote ${lot.code}? As peças já lançadas no contador continuam lá.`)) return;
+
+    try {
+      await deletePieceLot(lot.id);
+      onChange();
+    } catch (error) {
+      console.error('Erro ao excluir lote:', error);
+      alert('Erro ao excluir lote. Tente novamente.');
+    }
+  };
+
+  const inputClass = 'w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  const renderLot = (lot: PieceLot, index: number) => {
+    const pending = getLotPending(lot);
+
+    return (
+      <motion.div
+        key={lot.id}
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className="bg-white rounded-xl p-4 shadow-sm space-y-3"
+      >
+        <div className="flex items-start justify-between">
+          <div className="min-w-0">
+            <h4 className="font-bold text-gray-800">
+              Lote {lot.code}
+              {lot.piece_type && <span className="font-normal text-gray-600"> · {lot.piece_type}</span>}
+            </h4>
+            <p className="text-gray-600 text-sm truncate">{getCounter(lot)?.client_name}</p>
+            {Object.keys(lot.sizes).length > 0 && (
+              <p className="text-gray-500 text-xs">{formatLotSizes(lot.sizes)}</p>
+            )}
+          </div>
+          <button
+            onClick={() => handleDelete(lot)}
+            className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+            title="Excluir lote"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-1">
+          <div className="w-full bg-gray-100 rounded-full h-2">
+            <div
+              className="bg-green-500 h-2 rounded-full transition-all"
+              style={{ width: `${getLotProgress(lot)}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-600">{lot.delivered} de {lot.quantity} entregues</span>
+            {lot.defects > 0 && (
+              <span className="text-orange-600 flex items-center">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {lot.defects} com defeito
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min="1"
+            value={amounts[lot.id] ?? String(pending || '')}
+            onChange={(e) => setAmounts(prev => ({ ...prev, [lot.id]: e.target.value }))}
+            className="w-20 p-2 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <button
+            onClick={() => handleMove(lot, 'deliver')}
+            disabled={pending === 0}
+            className="flex-1 py-2 bg-green-500 text-white rounded-lg text-sm font-medium hover:bg-green-600 transition-colors flex items-center justify-center disabled:opacity-40"
+          >
+            <PackageCheck className="w-4 h-4 mr-1" />
+            Entregar
+          </button>
+          <button
+            onClick={() => handleMove(lot, 'defect')}
+            disabled={lot.delivered === 0}
+            className="flex-1 py-2 bg-orange-100 text-orange-700 rounded-lg text-sm font-medium hover:bg-orange-200 transition-colors flex items-center justify-center disabled:opacity-40"
+          >
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            Defeito
+          </button>
+        </div>
+      </motion.div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.05 }}
+      className="space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center">
+          <Layers className="w-5 h-5 mr-2" />
+          Lotes em Aberto
+        </h3>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-green-600 text-sm font-medium flex items-center hover:text-green-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Novo lote
+          </button>
+        )}
+      </div>
+
+      {/* New Lot Form */}
+      {showForm && (
+        <motion.form
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+        >
+          <select
+            value={formData.clientName}
+            onChange={(e) => setFormData(prev => ({ ...prev, clientName: e.target.value }))}
+            className={inputClass}
+            required
+          >
+            <option value="">Selecione um cliente</option>
+            {clients.map((client) => (
+              <option key={client.id} value={client.name}>{client.name}</option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={formData.code}
+              onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value }))}
+              placeholder="Código do lote"
+              className={inputClass}
+              required
+            />
+            <input
+              type="text"
+              value={formData.pieceType}
+              onChange={(e) => setFormData(prev => ({ ...prev, pieceType: e.target.value }))}
+              placeholder="Tipo de peça"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {getPieceTypes(rates, selectedClientId).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, pieceType: type }))}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  formData.pieceType === type
+                    ? 'bg-green-500 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Grade de tamanhos</label>
+            <div className="grid grid-cols-6 gap-2">
+              {lotSizeOptions.map((size) => (
+                <div key={size} className="text-center">
+                  <span className="text-xs text-gray-500">{size}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.sizes[size] ?? ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, sizes: { ...prev.sizes, [size]: e.target.value } }))}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">Quantidade recebida</label>
+            <input
+              type="number"
+              min="1"
+              value={gridTotal ? String(gridTotal) : formData.quantity}
+              onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value }))}
+              disabled={gridTotal > 0}
+              placeholder="Ex: 200"
+              className={`${inputClass} disabled:bg-gray-50`}
+            />
+            {gridTotal > 0 && <p className="text-gray-500 text-xs">Soma da grade de tamanhos</p>}
+          </div>
+
+          <input
+            type="text"
+            value={formData.notes}
+            onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Observações (opcional)"
+            className={inputClass}
+          />
+
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="flex-1 p-3 rounded-xl font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-green-500 text-white p-3 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-5 h-5" />
+              <span>{saving ? 'Salvando...' : 'Criar lote'}</span>
+            </button>
+          </div>
+        </motion.form>
+      )}
+
+      {openLots.length > 0 ? (
+        <div className="space-y-3">
+          {openLots.map(renderLot)}
+        </div>
+      ) : !showForm && (
+        <p className="text-gray-500 text-sm">Nenhum lote em aberto.</p>
+      )}
+
+      {closedLots.length > 0 && (
+        <div className="space-y-3">
+          <button
+            onClick={() => setShowClosed(!showClosed)}
+            className="text-gray-600 text-sm font-medium hover:text-gray-800"
+          >
+            {showClosed ? 'Ocultar' : 'Mostrar'} lotes entregues ({closedLots.length})
+          </button>
+          {showClosed && closedLots.map(renderLot)}
+        </div>
+      )}
+    </motion.div>
+  );
+};
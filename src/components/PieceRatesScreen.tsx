@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Trash2, Check, Tag } from 'lucide-react';
+import { usePieceRates, useClients, savePieceRate, deletePieceRate } from '../hooks/useSupabase';
+import { PieceRate } from '../lib/supabase';
+
+interface PieceRateFormData {
+  clientId: string;
+  pieceType: string;
+  rate: string;
+}
+
+const toFormData = (rate?: PieceRate): PieceRateFormData => ({
+  clientId: rate?.client_id ?? '',
+  pieceType: rate?.piece_type ?? '',
+  rate: rate ? String(rate.rate) : ''
+});
+
+export const PieceRatesScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { rates, loading, refetch } = usePieceRates();
+  const { clients } = useClients();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<PieceRateFormData>(toFormData());
+  const [saving, setSaving] = useState(false);
+
+  // General rates first, then one group per client
+  const groups = [
+    { clientId: null as string | null, title: 'Todas as clientes' },
+    ...clients
+      .filter(client => rates.some(rate => rate.client_id === client.id))
+      .map(client => ({ clientId: client.id as string | null, title: client.name }))
+  ]
+    .map(group => ({ ...group, rates: rates.filter(rate => rate.client_id === group.clientId) }))
+    .filter(group => group.rates.length > 0);
+
+  const handleNew = () => {
+    setFormData(toFormData());
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (rate: PieceRate) => {
+    setFormData(toFormData(rate));
+    setEditingId(rate.id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.pieceType.trim()) return;
+
+    setSaving(true);
+
+    try {
+      await savePieceRate({
+        client_id: formData.clientId || null,
+        piece_type: formData.pieceType.trim(),
+        rate: parseFloat(formData.rate.replace(',', '.')) || 0
+      }, editingId ?? undefined);
+
+      setShowForm(false);
+      setEditingId(null);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao salvar valor por peça:', error);
+      alert('Erro ao salvar valor. Verifique se esse tipo de peça já existe para a cliente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: PieceRate) => {
+    if (!confirm(`Excluir o valor de "${rate.piece_type}"? Os lançamentos já feitos mantêm o valor usado.`)) return;
+
+    try {
+      await deletePieceRate(rate.id);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao excluir valor por peça:', error);
+      alert('Erro ao excluir valor. Tente novamente.');
+    }
+  };
+
+  const inputClass = 'w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800 flex-1">Valor por Peça</h1>
+          {!showForm && (
+            <button
+              onClick={handleNew}
+              className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
+              title="Novo valor"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Rate Form */}
+        {showForm && (
+          <motion.form
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            onSubmit={handleSubmit}
+            className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+          >
+            <h3 className="text-lg font-bold text-gray-800">
+              {editingId ? 'Editar Valor' : 'Novo Valor'}
+            </h3>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Cliente</label>
+              <select
+                value={formData.clientId}
+                onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value }))}
+                className={inputClass}
+              >
+                <option value="">Todas as clientes</option>
+                {clients.map((client) => (
+                  <option key={client.id} value={client.id}>{client.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Tipo de peça</label>
+                <input
+                  type="text"
+                  value={formData.pieceType}
+                  onChange={(e) => setFormData(prev => ({ ...prev, pieceType: e.target.value }))}
+                  placeholder="Ex: Camiseta"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Valor por peça</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.rate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rate: e.target.value }))}
+                  placeholder="R$"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 p-3 rounded-xl font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-green-500 text-white p-3 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-5 h-5" />
+                <span>{saving ? 'Salvando...' : 'Salvar'}</span>
+              </button>
+            </div>
+          </motion.form>
+        )}
+
+        {/* Rate List */}
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-gray-200 animate-pulse rounded-xl h-16"></div>
+            ))}
+          </div>
+        ) : groups.length > 0 ? (
+          groups.map((group) => (
+            <div key={group.clientId ?? 'all'} className="space-y-2">
+              <h3 className="font-bold text-gray-800">{group.title}</h3>
+              {group.rates.map((rate, index) => (
+                <motion.div
+                  key={rate.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="bg-white rounded-xl p-4 shadow-sm flex items-center justify-between"
+                >
+                  <button onClick={() => handleEdit(rate)} className="flex-1 min-w-0 text-left">
+                    <p className="font-semibold text-gray-800 truncate">{rate.piece_type}</p>
+                  </button>
+                  <span className="font-bold text-green-600 ml-3">R$ {rate.rate.toFixed(2)}</span>
+                  <button
+                    onClick={() => handleDelete(rate)}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors ml-1"
+                    title="Excluir valor"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </motion.div>
+              ))}
+            </div>
+          ))
+        ) : !showForm && (
+          <div className="text-center py-12">
+            <Tag className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Nenhum valor cadastrado</p>
+            <p className="text-gray-400 text-sm">Cadastre quanto você recebe por tipo de peça</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
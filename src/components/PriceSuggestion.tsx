@@ -0,0 +1,90 @@
+import React from 'react';
+import { Calculator } from 'lucide-react';
+import { Profile } from '../lib/supabase';
+import { getPriceSuggestion } from '../lib/pricing';
+
+interface PriceSuggestionProps {
+  profile: Profile | null;
+  hours: string;
+  onHoursChange: (hours: string) => void;
+  materialCost: number;
+  onApply?: (price: number) => void;
+  onConfigure: () => void;
+}
+
+export const PriceSuggestion: React.FC<PriceSuggestionProps> = ({
+  profile,
+  hours,
+  onHoursChange,
+  materialCost,
+  onApply,
+  onConfigure
+}) => {
+  if (!profile) return null;
+
+  if (profile.hourly_rate <= 0) {
+    return (
+      <button
+        type="button"
+        onClick={onConfigure}
+        className="text-green-600 text-sm font-medium flex items-center"
+      >
+        <Calculator className="w-4 h-4 mr-1" />
+        Configurar calculadora de preço
+      </button>
+    );
+  }
+
+  const suggestion = getPriceSuggestion(profile, parseFloat(hours.replace(',', '.')) || 0, materialCost);
+
+  const rows = [
+    { label: 'Mão de obra', value: suggestion.labor },
+    { label: 'Custos fixos', value: suggestion.fixedCosts },
+    { label: 'Materiais', value: suggestion.materials },
+    { label: `Margem (${profile.margin_percent}%)`, value: suggestion.margin }
+  ];
+
+  return (
+    <div className="bg-green-50 rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 flex items-center">
+          <Calculator className="w-4 h-4 mr-1 text-green-600" />
+          Preço sugerido
+        </span>
+        <label className="flex items-center text-sm text-gray-600">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={hours}
+            onChange={(e) => onHoursChange(e.target.value)}
+            placeholder="0"
+            className="w-14 p-1 mr-1 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          horas
+        </label>
+      </div>
+
+      <div className="space-y-1 text-xs text-gray-600">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between">
+            <span>{row.label}</span>
+            <span>R$ {row.value.toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between pt-1 border-t border-green-100">
+        <span className="font-bold text-green-700">R$ {suggestion.total.toFixed(2)}</span>
+        {onApply && suggestion.total > 0 && (
+          <button
+            type="button"
+            onClick={() => onApply(suggestion.total)}
+            className="px-3 py-1 bg-green-500 text-white rounded-full text-sm font-medium hover:bg-green-600 transition-colors"
+          >
+            Usar este valor
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Calculator } from 'lucide-react';
+import { updateProfile } from '../hooks/useSupabase';
+import { Profile } from '../lib/supabase';
+import { getFixedCostPerHour } from '../lib/pricing';
+
+interface PricingSettingsCardProps {
+  profile: Profile | null;
+  onSaved: () => void;
+}
+
+const settingsFields = [
+  { key: 'hourly_rate', label: 'Valor da hora (R$)' },
+  { key: 'margin_percent', label: 'Margem (%)' },
+  { key: 'monthly_fixed_costs', label: 'Custos fixos/mês (R$)' },
+  { key: 'monthly_work_hours', label: 'Horas de trabalho/mês' }
+] as const;
+
+type SettingsKey = typeof settingsFields[number]['key'];
+
+export const PricingSettingsCard: React.FC<PricingSettingsCardProps> = ({ profile, onSaved }) => {
+  const [values, setValues] = useState<Record<SettingsKey, string>>({
+    hourly_rate: '',
+    margin_percent: '',
+    monthly_fixed_costs: '',
+    monthly_work_hours: ''
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setValues({
+        hourly_rate: String(profile.hourly_rate),
+        margin_percent: String(profile.margin_percent),
+        monthly_fixed_costs: String(profile.monthly_fixed_costs),
+        monthly_work_hours: String(profile.monthly_work_hours)
+      });
+    }
+  }, [profile]);
+
+  const parsed = {
+    hourly_rate: parseFloat(values.hourly_rate.replace(',', '.')) || 0,
+    margin_percent: parseFloat(values.margin_percent.replace(',', '.')) || 0,
+    monthly_fixed_costs: parseFloat(values.monthly_fixed_costs.replace(',', '.')) || 0,
+    monthly_work_hours: parseInt(values.monthly_work_hours) || 160
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      await updateProfile(parsed);
+      onSaved();
+    } catch (error) {
+      console.error('Erro ao salvar configurações de preço:', error);
+      alert('Erro ao salvar configurações. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm space-y-3">
+      <h3 className="text-lg font-bold text-gray-800 flex items-center">
+        <Calculator className="w-5 h-5 mr-2 text-green-500" />
+        Calculadora de Preço
+      </h3>
+      <p className="text-gray-500 text-sm">Usado para sugerir o preço no cadastro de serviços</p>
+
+      <div className="grid grid-cols-2 gap-3">
+        {settingsFields.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">{field.label}</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={values[field.key]}
+              onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+        ))}
+      </div>
+
+      <p className="text-gray-500 text-xs">
+        Custos fixos por hora: R$ {getFixedCostPerHour(parsed).toFixed(2)}
+      </p>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full p-3 bg-green-500 text-white rounded-xl font-semibold hover:bg-green-600 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Salvando...' : 'Salvar'}
+      </button>
+    </div>
+  );
+};
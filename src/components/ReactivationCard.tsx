@@ -0,0 +1,103 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { UserCheck, MessageCircle, ChevronRight, Cake } from 'lucide-react';
+import { recordClientContact } from '../hooks/useSupabase';
+import { Client, ClientContact, Profile, Service } from '../lib/supabase';
+import { SegmentSettings, getClientsToReactivate, getDaysSinceLastService } from '../lib/segments';
+import { getClientWhatsAppUrl } from '../lib/messages';
+import { getBirthdaysThisWeek, wasRecentlyContacted } from '../lib/campaigns';
+
+interface ReactivationCardProps {
+  clients: Client[];
+  services: Service[];
+  settings: SegmentSettings;
+  profile: Profile | null;
+  contacts: ClientContact[];
+  onContacted: () => void;
+}
+
+export const ReactivationCard: React.FC<ReactivationCardProps> = ({
+  clients,
+  services,
+  settings,
+  profile,
+  contacts,
+  onContacted
+}) => {
+  const navigate = useNavigate();
+  const toReactivate = getClientsToReactivate(clients, services, settings)
+    .filter(client => !wasRecentlyContacted(contacts, client.id));
+  const birthdays = getBirthdaysThisWeek(clients);
+
+  if (toReactivate.length === 0 && birthdays.length === 0) return null;
+
+  const handleWhatsApp = async (client: Client) => {
+    const url = getClientWhatsAppUrl(profile, 'reactivation', client);
+    if (!url) return;
+
+    window.open(url, '_blank');
+
+    try {
+      await recordClientContact(client.id, 'reactivation');
+      onContacted();
+    } catch (error) {
+      console.error('Erro ao registrar contato:', error);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+      className="bg-white rounded-2xl p-6 shadow-sm"
+    >
+      <button
+        onClick={() => navigate('/campaigns')}
+        className="w-full flex items-center justify-between mb-4"
+      >
+        <h3 className="text-lg font-bold text-gray-800 flex items-center">
+          <UserCheck className="w-5 h-5 mr-2 text-orange-500" />
+          Clientes para reativar
+        </h3>
+        <span className="flex items-center text-gray-500 text-sm">
+          {toReactivate.length}
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </span>
+      </button>
+
+      {birthdays.length > 0 && (
+        <button
+          onClick={() => navigate('/campaigns')}
+          className="w-full flex items-center bg-pink-50 text-pink-700 rounded-xl p-3 mb-3 text-sm"
+        >
+          <Cake className="w-4 h-4 mr-2" />
+          {birthdays.length} aniversariante{birthdays.length === 1 ? '' : 's'} esta semana: {birthdays.map(client => client.name).join(', ')}
+        </button>
+      )}
+
+      <div className="space-y-3">
+        {toReactivate.slice(0, 5).map((client) => (
+          <div key={client.id} className="flex items-center justify-between">
+            <button onClick={() => navigate(`/clients/${client.id}`)} className="text-left min-w-0">
+              <p className="font-medium text-gray-800 truncate">{client.name}</p>
+              <p className="text-gray-500 text-xs">
+                {getDaysSinceLastService(client)} dias sem serviço · R$ {client.total_spent.toFixed(2)}
+              </p>
+            </button>
+            {client.phone && (
+              <button
+                onClick={() => handleWhatsApp(client)}
+                className="p-2 bg-green-500 text-white rounded-full hover:bg-green-600 transition-colors ml-2"
+                title="Enviar WhatsApp"
+              >
+                <MessageCircle className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Printer, Download, Share2 } from 'lucide-react';
+import { useService, useServicePayments, useProfile } from '../hooks/useSupabase';
+import {
+  buildReceiptData,
+  generateReceiptPdf,
+  getReceiptTitle,
+  formatCurrency,
+  ReceiptKind,
+  ReceiptFormat
+} from '../lib/receipt';
+
+export const ReceiptScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { id: serviceId } = useParams<{ id: string }>();
+  const { service, items, loading } = useService(serviceId);
+  const { payments } = useServicePayments(serviceId);
+  const { profile } = useProfile();
+  const [kind, setKind] = useState<ReceiptKind>('ticket');
+  const [format, setFormat] = useState<ReceiptFormat>('thermal');
+
+  useEffect(() => {
+    if (service?.status === 'paid') setKind('receipt');
+  }, [service]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando recibo...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!service) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-500">Serviço não encontrado</p>
+      </div>
+    );
+  }
+
+  const receipt = buildReceiptData(kind, service, items, payments, profile);
+  const fileName = `${kind === 'ticket' ? 'comprovante' : 'recibo'}-${service.order_number}.pdf`;
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(generateReceiptPdf(receipt, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleShare = async () => {
+    const file = new File([generateReceiptPdf(receipt, format)], fileName, { type: 'application/pdf' });
+
+    // Fall back to a download where the share sheet does not accept files
+    if (!navigator.canShare?.({ files: [file] })) {
+      handleDownload();
+      return;
+    }
+
+    try {
+      await navigator.share({ files: [file], title: `${getReceiptTitle(kind)} ${receipt.orderNumber}` });
+    } catch (error) {
+      console.error('Erro ao compartilhar recibo:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <style>{`@page { size: ${format === 'a4' ? 'A4' : '80mm auto'}; margin: ${format === 'a4' ? '20mm' : '4mm'}; }`}</style>
+
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4 space-y-4 print:hidden">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800">Recibo</h1>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="flex bg-gray-100 rounded-xl p-1">
+            {([['ticket', 'Entrada'], ['receipt', 'Recibo']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setKind(value)}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+                  kind === value ? 'bg-green-500 text-white shadow-sm' : 'text-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex bg-gray-100 rounded-xl p-1">
+            {([['thermal', 'Térmica'], ['a4', 'A4']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setFormat(value)}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+                  format === value ? 'bg-green-500 text-white shadow-sm' : 'text-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => window.print()}
+            className="p-3 bg-gray-100 text-gray-700 rounded-xl text-sm font-medium hover:bg-gray-200 transition-colors flex items-center justify-center"
+          >
+            <Printer className="w-4 h-4 mr-1" />
+            Imprimir
+          </button>
+          <button
+            onClick={handleDownload}
+            className="p-3 bg-gray-100 text-gray-700 rounded-xl text-sm font-medium hover:bg-gray-200 transition-colors flex items-center justify-center"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            PDF
+          </button>
+          <button
+            onClick={handleShare}
+            className="p-3 bg-green-500 text-white rounded-xl text-sm font-medium hover:bg-green-600 transition-colors flex items-center justify-center"
+          >
+            <Share2 className="w-4 h-4 mr-1" />
+            Enviar
+          </button>
+        </div>
+      </div>
+
+      {/* Printable Receipt */}
+      <div className="p-4 print:p-0 flex justify-center">
+        <div
+          className={`bg-white shadow-sm print:shadow-none font-mono text-gray-900 ${
+            format === 'a4' ? 'w-full p-8 text-sm' : 'w-[80mm] p-3 text-xs'
+          }`}
+        >
+          <div className="text-center mb-3">
+            <p className={`font-bold ${format === 'a4' ? 'text-xl' : 'text-base'}`}>{receipt.businessName}</p>
+            {receipt.businessPhone && <p>{receipt.businessPhone}</p>}
+          </div>
+
+          <div className="border-t border-dashed border-gray-400 py-2">
+            <div className="flex justify-between font-bold">
+              <span>{getReceiptTitle(kind)} {receipt.orderNumber}</span>
+              <span>{receipt.issuedAt}</span>
+            </div>
+            <p>Cliente: {receipt.clientName}</p>
+            {receipt.deliveryDate && <p>Entrega prevista: {receipt.deliveryDate}</p>}
+          </div>
+
+          <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+            {receipt.lines.map((line, index) => (
+              <div key={index} className="flex justify-between">
+                <span className="pr-2">{line.quantity > 1 ? `${line.quantity}x ` : ''}{line.description}</span>
+                <span className="whitespace-nowrap">{formatCurrency(line.total)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+            <div className="flex justify-between font-bold">
+              <span>Total</span>
+              <span>{formatCurrency(receipt.total)}</span>
+            </div>
+            {receipt.payments.map((payment, index) => (
+              <div key={index} className="flex justify-between">
+                <span>Pago em {payment.date} ({payment.method})</span>
+                <span>{formatCurrency(payment.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span>Recebido</span>
+              <span>{formatCurrency(receipt.received)}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>Saldo a pagar</span>
+              <span>{formatCurrency(receipt.balance)}</span>
+            </div>
+          </div>
+
+          <p className="text-center mt-3">Obrigada pela preferência!</p>
+        </div>
+      </div>
+    </div>
+  );
+};
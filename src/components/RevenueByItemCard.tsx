@@ -0,0 +1,51 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Service, ServiceItem } from '../lib/supabase';
+import { getRevenueByItemType } from '../lib/items';
+import { toDateKey } from '../lib/dates';
+
+interface RevenueByItemCardProps {
+  services: Service[];
+  items: ServiceItem[];
+}
+
+export const RevenueByItemCard: React.FC<RevenueByItemCardProps> = ({ services, items }) => {
+  // Billed value of this month's services, by item type
+  const thisMonth = toDateKey(new Date()).slice(0, 7);
+  const monthlyServices = services.filter(service => toDateKey(new Date(service.created_at)).slice(0, 7) === thisMonth);
+  const revenueByType = getRevenueByItemType(monthlyServices, items).slice(0, 5);
+  const maxTotal = Math.max(...revenueByType.map(group => group.total), 1);
+
+  if (revenueByType.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+      className="bg-white rounded-2xl p-6 shadow-sm"
+    >
+      <h3 className="text-lg font-bold text-gray-800 mb-4">Faturamento por Tipo</h3>
+
+      <div className="space-y-3">
+        {revenueByType.map((group) => (
+          <div key={group.type} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-700 truncate">
+                {group.type} <span className="text-gray-400">({group.quantity})</span>
+              </span>
+              <span className="font-semibold text-gray-800 ml-2">R$ {group.total.toFixed(2)}</span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${(group.total / maxTotal) * 100}%` }}
+                className="h-full bg-green-500 rounded-full"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { updateProfile } from '../hooks/useSupabase';
+import { Profile } from '../lib/supabase';
+import { defaultSegmentSettings } from '../lib/segments';
+
+interface SegmentSettingsCardProps {
+  profile: Profile | null;
+  onSaved: () => void;
+}
+
+const settingsFields = [
+  { key: 'segment_at_risk_days', label: 'Em risco após (dias)' },
+  { key: 'segment_inactive_days', label: 'Inativa após (dias)' },
+  { key: 'segment_loyal_services', label: 'Fiel a partir de (serviços)' },
+  { key: 'segment_vip_spent', label: 'VIP a partir de (R$)' }
+] as const;
+
+type SettingsKey = typeof settingsFields[number]['key'];
+
+export const SegmentSettingsCard: React.FC<SegmentSettingsCardProps> = ({ profile, onSaved }) => {
+  const [values, setValues] = useState<Record<SettingsKey, string>>({
+    segment_at_risk_days: String(defaultSegmentSettings.segment_at_risk_days),
+    segment_inactive_days: String(defaultSegmentSettings.segment_inactive_days),
+    segment_loyal_services: String(defaultSegmentSettings.segment_loyal_services),
+    segment_vip_spent: String(defaultSegmentSettings.segment_vip_spent)
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setValues({
+        segment_at_risk_days: String(profile.segment_at_risk_days),
+        segment_inactive_days: String(profile.segment_inactive_days),
+        segment_loyal_services: String(profile.segment_loyal_services),
+        segment_vip_spent: String(profile.segment_vip_spent)
+      });
+    }
+  }, [profile]);
+
+  const handleSave = async () => {
+    const parsed = {
+      segment_at_risk_days: parseInt(values.segment_at_risk_days) || defaultSegmentSettings.segment_at_risk_days,
+      segment_inactive_days: parseInt(values.segment_inactive_days) || defaultSegmentSettings.segment_inactive_days,
+      segment_loyal_services: parseInt(values.segment_loyal_services) || defaultSegmentSettings.segment_loyal_services,
+      segment_vip_spent: parseFloat(values.segment_vip_spent.replace(',', '.')) || 0
+    };
+
+    if (parsed.segment_inactive_days <= parsed.segment_at_risk_days) {
+      alert('O prazo para "Inativa" precisa ser maior que o de "Em risco".');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await updateProfile(parsed);
+      onSaved();
+    } catch (error) {
+      console.error('Erro ao salvar regras de segmentação:', error);
+      alert('Erro ao salvar regras. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-2xl p-4 shadow-sm space-y-3">
+      <h3 className="font-bold text-gray-800 flex items-center">
+        <SlidersHorizontal className="w-5 h-5 mr-2 text-green-500" />
+        Regras dos segmentos
+      </h3>
+      <p className="text-gray-500 text-sm">Contados a partir do último serviço e do total já recebido</p>
+
+      <div className="grid grid-cols-2 gap-3">
+        {settingsFields.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">{field.label}</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={values[field.key]}
+              onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full p-3 bg-green-500 text-white rounded-xl font-semibold hover:bg-green-600 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Salvando...' : 'Salvar'}
+      </button>
+    </div>
+  );
+};
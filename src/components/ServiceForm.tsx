@@ -1,9 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Calendar, DollarSign, User, FileText, Check } from 'lucide-react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, DollarSign, User, FileText, Check, Trash2, Printer, AlertTriangle } from 'lucide-react';
 import { ClientChips } from './ClientChips';
-import { createService } from '../hooks/useSupabase';
+import { PaymentsCard } from './PaymentsCard';
+import { PhotoGallery } from './PhotoGallery';
+import { ServiceTimerCard } from './ServiceTimerCard';
+import { PriceSuggestion } from './PriceSuggestion';
+import { ServiceItemsEditor, ServiceItemRow } from './ServiceItemsEditor';
+import { ServiceMaterialsEditor, ServiceMaterialRow } from './ServiceMaterialsEditor';
+import { LatestMeasurementsCard } from './LatestMeasurementsCard';
+import { NotifyClientButton } from './NotifyClientButton';
+import { createService, updateService, setServiceStatus, deleteService, useService, useClients, useServiceCatalog, useMaterials, useServiceMaterials, useProfile } from '../hooks/useSupabase';
+import { getItemsTotal } from '../lib/items';
+import { getMaterialsCost } from '../lib/materials';
+import { findProbableDuplicate } from '../lib/duplicates';
+import { statusTemplateKeys } from '../lib/messages';
+import { getServiceStatusOption } from '../lib/serviceStatus';
+import { ServiceCatalogItem } from '../lib/supabase';
 
 interface ServiceFormData {
   client: string;
@@ -11,21 +25,34 @@ interface ServiceFormData {
   value: string;
   deliveryDate: string;
   status: 'progress' | 'delivered' | 'paid';
+  items: ServiceItemRow[];
+  materials: ServiceMaterialRow[];
 }
 
 export const ServiceForm: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { id: serviceId } = useParams<{ id: string }>();
+  const isEditing = Boolean(serviceId);
+  const { service, items: serviceItems, loading: serviceLoading } = useService(serviceId);
+  const { clients } = useClients();
+  const { materials } = useMaterials();
+  const { serviceMaterials, loading: materialsLoading, failed: materialsFailed, refetch: refetchServiceMaterials } = useServiceMaterials(serviceId);
+  const { profile } = useProfile();
+  const [estimatedHours, setEstimatedHours] = useState('');
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState<ServiceFormData>({
     client: '',
     description: '',
     value: '',
     deliveryDate: new Date().toISOString().split('T')[0],
-    status: 'progress'
+    status: 'progress',
+    items: [],
+    materials: []
   });
 
   const [showClientSuggestions, setShowClientSuggestions] = useState(false);
+  const [notifyStatus, setNotifyStatus] = useState<ServiceFormData['status'] | null>(null);
 
   const clientSuggestions = [
     'Kaue (Último: 03/06)',
@@ -35,15 +62,7 @@ export const ServiceForm: React.FC = () => {
     'Carla (Último: 10/05)'
   ];
 
-  const serviceSuggestions = [
-    'Vestido social',
-    'Calça ajustada',
-    'Blusa básica',
-    'Saia midi',
-    'Blazer feminino'
-  ];
-
-  const quickValues = ['80', '120', '150', '200'];
+  const { catalog } = useServiceCatalog();
 
   useEffect(() => {
     if (location.state?.prefilledClient) {
@@ -55,32 +74,144 @@ export const ServiceForm: React.FC = () => {
     }
   }, [location.state]);
 
+  useEffect(() => {
+    if (service) {
+      setFormData(prev => ({
+        ...prev,
+        client: service.client_name,
+        description: service.description,
+        value: String(service.value),
+        deliveryDate: service.delivery_date || '',
+        status: service.status,
+        items: serviceItems.map(item => ({
+          description: item.description,
+          quantity: String(item.quantity),
+          unitPrice: String(item.unit_price)
+        }))
+      }));
+
+      if (service.minutes_worked > 0) {
+        setEstimatedHours((service.minutes_worked / 60).toFixed(1));
+      }
+    }
+  }, [service, serviceItems]);
+
+  useEffect(() => {
+    setFormData(prev => ({
+      ...prev,
+      materials: serviceMaterials.map(material => ({
+        materialId: material.material_id,
+        quantity: String(material.quantity),
+        unitCost: material.unit_cost
+      }))
+    }));
+  }, [serviceMaterials]);
+
+  // Filled-in line items; when present the service value is their total
+  const parsedItems = formData.items
+    .filter(item => item.description.trim())
+    .map(item => ({
+      description: item.description.trim(),
+      quantity: parseInt(item.quantity) || 1,
+      unit_price: parseFloat(item.unitPrice) || 0
+    }));
+  const hasItems = parsedItems.length > 0;
+  const itemsTotal = getItemsTotal(parsedItems);
+
+  // Materials used, deducted from stock when the service is saved
+  const parsedMaterials = formData.materials
+    .filter(row => row.materialId && parseFloat(row.quantity) > 0)
+    .map(row => ({
+      material_id: row.materialId,
+      quantity: parseFloat(row.quantity),
+      unit_cost: row.unitCost
+    }));
+  const materialCost = getMaterialsCost(parsedMaterials);
+  const serviceValue = hasItems ? itemsTotal : parseFloat(formData.value) || 0;
+  // Saving replaces the materials of the service, so it waits until they are loaded
+  const materialsBlocked = isEditing && (materialsLoading || materialsFailed);
+
+  // Existing client matching the typed name (same rule as get_or_create_client)
+  const selectedClient = clients.find(client =>
+    client.name.toLowerCase() === formData.client.trim().toLowerCase()
+  );
+
+  // A new name close to an existing one ("maria silva" vs "Maria Silva ") would create a duplicate client
+  const probableDuplicate = findProbableDuplicate(formData.client, clients);
+
   const handleClientSelect = (clientName: string) => {
     const cleanName = clientName.split(' (')[0];
     setFormData(prev => ({ ...prev, client: cleanName }));
     setShowClientSuggestions(false);
   };
 
+  // Picking from the price table fills description and value,
+  // or adds a line item when the order already has items
+  const handleCatalogSelect = (item: ServiceCatalogItem) => {
+    // Estimated time feeds the price calculator (summed across line items)
+    if (item.estimated_minutes) {
+      const minutes = item.estimated_minutes;
+      setEstimatedHours(prev => {
+        const previous = formData.items.length > 0 ? parseFloat(prev.replace(',', '.')) || 0 : 0;
+        return String(Number((previous + minutes / 60).toFixed(2)));
+      });
+    }
+
+    if (formData.items.length > 0) {
+      setFormData(prev => ({
+        ...prev,
+        items: [
+          ...prev.items.filter(row => row.description.trim()),
+          { description: item.name, quantity: '1', unitPrice: String(item.default_price) }
+        ]
+      }));
+      return;
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      description: item.name,
+      value: String(item.default_price)
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.client || !formData.description || !formData.value) {
+    if (!formData.client || !formData.description || (!formData.value && !hasItems)) {
       alert('Por favor, preencha todos os campos obrigatórios.');
       return;
     }
 
+    if (materialsBlocked) {
+      alert('Os materiais deste serviço não foram carregados. Tente novamente antes de salvar.');
+      return;
+    }
+
+    if (probableDuplicate && !confirm(
+      `Já existe a cliente "${probableDuplicate.name}". Cadastrar "${formData.client.trim()}" como uma nova cliente?`
+    )) return;
+
     setLoading(true);
     
     try {
-      await createService({
+      const serviceData = {
         client_name: formData.client,
         description: formData.description,
-        value: parseFloat(formData.value),
+        value: hasItems ? itemsTotal : parseFloat(formData.value),
         delivery_date: formData.deliveryDate,
-        status: formData.status
-      });
-      
-      navigate('/', { replace: true });
+        status: formData.status,
+        items: parsedItems,
+        materials: parsedMaterials
+      };
+
+      if (serviceId) {
+        await updateService(serviceId, serviceData);
+        navigate('/services', { replace: true });
+      } else {
+        const { service } = await createService(serviceData);
+        navigate('/', { replace: true, state: { notifyServiceId: service.id } });
+      }
     } catch (error) {
       console.error('Erro ao salvar serviço:', error);
       alert('Erro ao salvar serviço. Tente novamente.');
@@ -89,24 +220,105 @@ export const ServiceForm: React.FC = () => {
     }
   };
 
+  const handleStatusChange = async (status: ServiceFormData['status']) => {
+    const previousStatus = formData.status;
+    setFormData(prev => ({ ...prev, status }));
+
+    // In edit mode the status is saved right away
+    if (!serviceId) return;
+
+    try {
+      await setServiceStatus(serviceId, status);
+      setNotifyStatus(status);
+    } catch (error) {
+      console.error('Erro ao atualizar status:', error);
+      alert('Erro ao atualizar status. Tente novamente.');
+      setFormData(prev => ({ ...prev, status: previousStatus }));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!serviceId || !confirm('Excluir este serviço e suas fotos? Esta ação não pode ser desfeita.')) return;
+
+    setLoading(true);
+
+    try {
+      await deleteService(serviceId);
+      navigate('/services', { replace: true });
+    } catch (error) {
+      console.error('Erro ao excluir serviço:', error);
+      alert('Erro ao excluir serviço. Tente novamente.');
+      setLoading(false);
+    }
+  };
+
+  if (isEditing && serviceLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando serviço...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isEditing && !service) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Serviço não encontrado</p>
+          <button
+            onClick={() => navigate('/services')}
+            className="text-green-600 text-sm font-medium mt-2"
+          >
+            Voltar aos serviços
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <div className="bg-white shadow-sm p-4">
         <div className="flex items-center space-x-4">
           <button 
-            onClick={() => navigate('/')}
+            onClick={() => navigate(isEditing ? '/services' : '/')}
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
           >
             <ArrowLeft className="w-5 h-5" />
           </button>
-          <h1 className="text-xl font-bold text-gray-800">Novo Serviço</h1>
+          <h1 className="text-xl font-bold text-gray-800 flex-1">
+            {isEditing ? 'Editar Serviço' : 'Novo Serviço'}
+          </h1>
+          {isEditing && (
+            <button
+              onClick={() => navigate(`/service/${serviceId}/receipt`)}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+              title="Comprovante e recibo"
+            >
+              <Printer className="w-5 h-5" />
+            </button>
+          )}
+          {isEditing && (
+            <button
+              onClick={handleDelete}
+              disabled={loading}
+              className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors disabled:opacity-50"
+              title="Excluir serviço"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
 
       <div className="p-4 space-y-6">
         {/* Recent Clients */}
-        <ClientChips onClientSelect={handleClientSelect} />
+        {!isEditing && <ClientChips onClientSelect={handleClientSelect} />}
 
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Client Input */}
@@ -130,7 +342,7 @@ export const ServiceForm: React.FC = () => {
                 onFocus={() => setShowClientSuggestions(formData.client.length > 0)}
                 placeholder="Digite o nome..."
                 className="w-full p-4 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                autoFocus
+                autoFocus={!isEditing}
                 required
               />
               
@@ -158,6 +370,25 @@ export const ServiceForm: React.FC = () => {
                 </motion.div>
               )}
             </div>
+
+            {probableDuplicate && !showClientSuggestions && (
+              <div className="bg-yellow-50 rounded-xl p-3 flex items-center justify-between text-sm">
+                <span className="text-yellow-800 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  Você quis dizer {probableDuplicate.name}?
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleClientSelect(probableDuplicate.name)}
+                  className="px-3 py-1 bg-yellow-500 text-white rounded-full font-medium hover:bg-yellow-600 transition-colors ml-2"
+                >
+                  Usar
+                </button>
+              </div>
+            )}
+
+            {/* Latest Measurements */}
+            {selectedClient && <LatestMeasurementsCard clientId={selectedClient.id} />}
           </motion.div>
 
           {/* Description Input */}
@@ -180,21 +411,40 @@ export const ServiceForm: React.FC = () => {
               required
             />
             
-            {/* Service Suggestions */}
+            {/* Price Table */}
             <div className="flex flex-wrap gap-2 mt-2">
-              {serviceSuggestions.map((service, index) => (
+              {catalog.map((item) => (
                 <button
-                  key={index}
+                  key={item.id}
                   type="button"
-                  onClick={() => setFormData(prev => ({ ...prev, description: service }))}
+                  onClick={() => handleCatalogSelect(item)}
                   className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm hover:bg-gray-200 transition-colors"
                 >
-                  {service}
+                  {item.name} · <span className="text-green-700">R$ {item.default_price.toFixed(0)}</span>
                 </button>
               ))}
+              <button
+                type="button"
+                onClick={() => navigate('/catalog')}
+                className="px-3 py-1 text-green-600 rounded-full text-sm hover:bg-green-50 transition-colors"
+              >
+                {catalog.length > 0 ? 'Editar tabela' : 'Cadastrar tabela de preços'}
+              </button>
             </div>
           </motion.div>
 
+          {/* Line Items */}
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15 }}
+          >
+            <ServiceItemsEditor
+              items={formData.items}
+              onChange={(items) => setFormData(prev => ({ ...prev, items }))}
+            />
+          </motion.div>
+
           {/* Value Input */}
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
@@ -210,26 +460,51 @@ export const ServiceForm: React.FC = () => {
               type="number"
               step="0.01"
               min="0"
-              value={formData.value}
+              value={hasItems ? itemsTotal.toFixed(2) : formData.value}
               onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
               placeholder="0,00"
-              className="w-full p-4 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              required
+              className="w-full p-4 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent disabled:bg-gray-100"
+              disabled={hasItems}
+              required={!hasItems}
             />
             
-            {/* Quick Values */}
-            <div className="flex gap-2 mt-2">
-              {quickValues.map((value, index) => (
-                <button
-                  key={index}
-                  type="button"
-                  onClick={() => setFormData(prev => ({ ...prev, value }))}
-                  className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm hover:bg-green-200 transition-colors"
-                >
-                  R$ {value}
-                </button>
-              ))}
-            </div>
+            {hasItems && (
+              <p className="text-gray-500 text-xs">Valor calculado pela soma dos itens</p>
+            )}
+
+            <PriceSuggestion
+              profile={profile}
+              hours={estimatedHours}
+              onHoursChange={setEstimatedHours}
+              materialCost={materialCost}
+              onApply={hasItems ? undefined : (price) => setFormData(prev => ({ ...prev, value: price.toFixed(2) }))}
+              onConfigure={() => navigate('/catalog')}
+            />
+          </motion.div>
+
+          {/* Materials */}
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+            className="space-y-2"
+          >
+            <ServiceMaterialsEditor
+              materials={materials}
+              rows={formData.materials}
+              onChange={(rows) => setFormData(prev => ({ ...prev, materials: rows }))}
+              onManageStock={() => navigate('/materials')}
+            />
+
+            {materialCost > 0 && (
+              <p className="text-gray-600 text-sm">
+                Custo de material: <span className="font-semibold">R$ {materialCost.toFixed(2)}</span>
+                {' · '}
+                Margem: <span className={`font-semibold ${serviceValue - materialCost >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  R$ {(serviceValue - materialCost).toFixed(2)}
+                </span>
+              </p>
+            )}
           </motion.div>
 
           {/* Date Input */}
@@ -260,15 +535,15 @@ export const ServiceForm: React.FC = () => {
           >
             <label className="block text-sm font-medium text-gray-700">Status</label>
             <div className="grid grid-cols-3 gap-2">
-              {[
+              {([
                 { value: 'progress', label: 'Em andamento', color: 'bg-gray-500' },
                 { value: 'delivered', label: 'Entregue', color: 'bg-blue-500' },
                 { value: 'paid', label: 'Pago', color: 'bg-green-500' }
-              ].map((status) => (
+              ] as const).map((status) => (
                 <button
                   key={status.value}
                   type="button"
-                  onClick={() => setFormData(prev => ({ ...prev, status: status.value as any }))}
+                  onClick={() => handleStatusChange(status.value)}
                   className={`p-3 rounded-xl text-white text-sm font-medium transition-all ${
                     formData.status === status.value 
                       ? status.color + ' ring-2 ring-offset-2 ring-gray-400' 
@@ -279,21 +554,65 @@ export const ServiceForm: React.FC = () => {
                 </button>
               ))}
             </div>
+
+            {service && notifyStatus && (
+              <div className="bg-green-50 rounded-xl p-3 flex items-center justify-between">
+                <span className="text-sm text-gray-700">
+                  Status atualizado: {getServiceStatusOption(notifyStatus).label}
+                </span>
+                <NotifyClientButton
+                  service={{ ...service, status: notifyStatus }}
+                  phone={selectedClient?.phone ?? null}
+                  templateKey={statusTemplateKeys[notifyStatus]}
+                />
+              </div>
+            )}
           </motion.div>
 
+          {materialsFailed && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-3 flex items-center justify-between">
+              <p className="text-red-700 text-sm flex items-center">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                Não foi possível carregar os materiais do serviço.
+              </p>
+              <button
+                type="button"
+                onClick={refetchServiceMaterials}
+                className="text-red-700 text-sm font-medium hover:text-red-800"
+              >
+                Tentar de novo
+              </button>
+            </div>
+          )}
+
           {/* Submit Button */}
           <motion.button
             type="submit"
-            disabled={loading}
+            disabled={loading || materialsBlocked}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.5 }}
             className="w-full bg-green-500 text-white p-4 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Check className="w-5 h-5" />
-            <span>{loading ? 'Salvando...' : 'Salvar e Atualizar Ganho'}</span>
+            <span>{loading ? 'Salvando...' : (isEditing ? 'Salvar Alterações' : 'Salvar e Atualizar Ganho')}</span>
           </motion.button>
         </form>
+
+        {/* Work Timer */}
+        {service && <ServiceTimerCard service={service} />}
+
+        {/* Payments */}
+        {service && (
+          <PaymentsCard
+            service={{ ...service, status: formData.status }}
+            clientPhone={selectedClient?.phone ?? null}
+            onFullyPaid={() => handleStatusChange('paid')}
+          />
+        )}
+
+        {/* Photos */}
+        {service && <PhotoGallery serviceId={service.id} />}
       </div>
     </div>
   );
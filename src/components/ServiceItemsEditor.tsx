@@ -0,0 +1,83 @@
+import React from 'react';
+import { Plus, X, List } from 'lucide-react';
+
+export interface ServiceItemRow {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+interface ServiceItemsEditorProps {
+  items: ServiceItemRow[];
+  onChange: (items: ServiceItemRow[]) => void;
+}
+
+export const ServiceItemsEditor: React.FC<ServiceItemsEditorProps> = ({ items, onChange }) => {
+  const updateItem = (index: number, changes: Partial<ServiceItemRow>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const addItem = () => {
+    onChange([...items, { description: '', quantity: '1', unitPrice: '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        <List className="w-4 h-4 inline mr-2" />
+        Itens (opcional)
+      </label>
+
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={item.description}
+            onChange={(e) => updateItem(index, { description: e.target.value })}
+            placeholder="Ex: Barra de calça"
+            className="flex-1 min-w-0 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <input
+            type="number"
+            min="1"
+            value={item.quantity}
+            onChange={(e) => updateItem(index, { quantity: e.target.value })}
+            className="w-14 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            title="Quantidade"
+          />
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={item.unitPrice}
+            onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+            placeholder="R$"
+            className="w-20 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            title="Preço unitário"
+          />
+          <button
+            type="button"
+            onClick={() => removeItem(index)}
+            className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+            title="Remover item"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addItem}
+        className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm hover:bg-gray-200 transition-colors"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Adicionar item
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Plus, X, Package } from 'lucide-react';
+import { Material } from '../lib/supabase';
+import { formatQuantity, isLowStock } from '../lib/materials';
+
+export interface ServiceMaterialRow {
+  materialId: string;
+  quantity: string;
+  unitCost: number;
+}
+
+interface ServiceMaterialsEditorProps {
+  materials: Material[];
+  rows: ServiceMaterialRow[];
+  onChange: (rows: ServiceMaterialRow[]) => void;
+  onManageStock: () => void;
+}
+
+export const ServiceMaterialsEditor: React.FC<ServiceMaterialsEditorProps> = ({ materials, rows, onChange, onManageStock }) => {
+  const updateRow = (index: number, changes: Partial<ServiceMaterialRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // Picking a material takes its current cost; saved rows keep the cost they were used at
+  const selectMaterial = (index: number, materialId: string) => {
+    const material = materials.find(m => m.id === materialId);
+    updateRow(index, { materialId, unitCost: material?.cost_per_unit ?? 0 });
+  };
+
+  const removeRow = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    onChange([...rows, { materialId: '', quantity: '1', unitCost: 0 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        <Package className="w-4 h-4 inline mr-2" />
+        Materiais usados (opcional)
+      </label>
+
+      {rows.map((row, index) => {
+        const material = materials.find(m => m.id === row.materialId);
+
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <select
+                value={row.materialId}
+                onChange={(e) => selectMaterial(index, e.target.value)}
+                className="flex-1 min-w-0 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white"
+              >
+                <option value="">Escolha o material</option>
+                {materials.map((option) => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={row.quantity}
+                onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                className="w-20 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                title="Quantidade"
+              />
+              <button
+                type="button"
+                onClick={() => removeRow(index)}
+                className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                title="Remover material"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {material && (
+              <p className={`text-xs ml-1 ${isLowStock(material) ? 'text-red-600' : 'text-gray-500'}`}>
+                Estoque: {formatQuantity(material.quantity, material.unit)} · R$ {row.unitCost.toFixed(2)}/{material.unit}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={addRow}
+          className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm hover:bg-gray-200 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Adicionar material
+        </button>
+        <button
+          type="button"
+          onClick={onManageStock}
+          className="px-3 py-1 text-green-600 rounded-full text-sm hover:bg-green-50 transition-colors"
+        >
+          {materials.length > 0 ? 'Ver estoque' : 'Cadastrar materiais'}
+        </button>
+      </div>
+    </div>
+  );
+};
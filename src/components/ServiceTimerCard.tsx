@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Timer, RotateCcw } from 'lucide-react';
+import { WorkTimer } from './WorkTimer';
+import { useWorkSessions, setServiceTimerFinished } from '../hooks/useSupabase';
+import { Service } from '../lib/supabase';
+import { getHourlyRate, getTrackedMinutes } from '../lib/workTime';
+import { formatMinutes } from '../lib/dates';
+
+interface ServiceTimerCardProps {
+  service: Service;
+}
+
+export const ServiceTimerCard: React.FC<ServiceTimerCardProps> = ({ service }) => {
+  const { sessions, refetch } = useWorkSessions(service.id);
+  const [finishedAt, setFinishedAt] = useState(service.timer_finished_at);
+  const trackedMinutes = getTrackedMinutes(sessions);
+  const hourlyRate = getHourlyRate(service.value, trackedMinutes);
+
+  const handleFinished = async (finished: boolean) => {
+    if (finished && !confirm('Finalizar o cronômetro deste serviço? O tempo registrado passa a ser o tempo final.')) return;
+
+    try {
+      const updated = await setServiceTimerFinished(service.id, finished);
+      setFinishedAt(updated.timer_finished_at);
+      refetch();
+    } catch (error) {
+      console.error('Erro ao finalizar cronômetro:', error);
+      alert('Erro ao finalizar cronômetro. Tente novamente.');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl p-6 shadow-sm space-y-4"
+    >
+      <h3 className="text-lg font-bold text-gray-800 flex items-center">
+        <Timer className="w-5 h-5 mr-2 text-green-500" />
+        Tempo de Trabalho
+      </h3>
+
+      {finishedAt ? (
+        <div className="flex items-center justify-between">
+          <p className="text-gray-600 text-sm">
+            Finalizado em {new Date(finishedAt).toLocaleDateString('pt-BR')}
+          </p>
+          <button
+            type="button"
+            onClick={() => handleFinished(false)}
+            className="text-green-600 text-sm font-medium flex items-center"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reabrir
+          </button>
+        </div>
+      ) : (
+        <WorkTimer
+          sessions={sessions}
+          serviceId={service.id}
+          onChange={refetch}
+          onFinish={() => handleFinished(true)}
+        />
+      )}
+
+      {hourlyRate !== null && trackedMinutes >= 1 ? (
+        <p className="text-gray-600 text-sm">
+          {formatMinutes(trackedMinutes)} trabalhados ·{' '}
+          <span className="font-semibold text-green-700">R$ {hourlyRate.toFixed(2)}/hora</span>
+        </p>
+      ) : (
+        <p className="text-gray-500 text-sm">Inicie o cronômetro ao começar a trabalhar nesta peça.</p>
+      )}
+    </motion.div>
+  );
+};
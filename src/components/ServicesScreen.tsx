@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { Search, Filter, Calendar, CalendarDays, ClipboardList, ChevronRight, X } from 'lucide-react';
+import { useServices, useClients, useServicePayments } from '../hooks/useSupabase';
+import { getOutstandingBalance } from '../lib/payments';
+import { getHourlyRate } from '../lib/workTime';
+import { serviceStatusOptions } from '../lib/serviceStatus';
+
+export const ServicesScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { services, loading } = useServices();
+  const { clients } = useClients();
+  const { payments } = useServicePayments();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [clientFilter, setClientFilter] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const hasActiveFilters = Boolean(clientFilter || dateFrom || dateTo);
+
+  const filteredServices = services.filter(service => {
+    if (searchQuery && !service.description.toLowerCase().includes(searchQuery.toLowerCase())) {
+      return false;
+    }
+    if (clientFilter && service.client_id !== clientFilter) {
+      return false;
+    }
+    // Date range only applies to services that have a delivery date
+    if ((dateFrom || dateTo) && !service.delivery_date) {
+      return false;
+    }
+    if (dateFrom && service.delivery_date! < dateFrom) {
+      return false;
+    }
+    if (dateTo && service.delivery_date! > dateTo) {
+      return false;
+    }
+    return true;
+  });
+
+  const clearFilters = () => {
+    setClientFilter('');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Carregando serviços...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm p-4 sticky top-0 z-10">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold text-gray-800">Serviços</h1>
+          <button
+            onClick={() => navigate('/agenda')}
+            className="p-2 bg-green-100 text-green-600 rounded-full hover:bg-green-200 transition-colors"
+            title="Agenda de entregas"
+          >
+            <CalendarDays className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Search Bar */}
+        <div className="flex space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Buscar na descrição..."
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-3 rounded-xl border transition-colors ${
+              hasActiveFilters
+                ? 'bg-green-500 border-green-500 text-white'
+                : 'bg-white border-gray-300 text-gray-600'
+            }`}
+            title="Filtros"
+          >
+            <Filter className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Filters */}
+        {showFilters && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 space-y-3"
+          >
+            <select
+              value={clientFilter}
+              onChange={(e) => setClientFilter(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="">Todos os clientes</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </select>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-600">
+                  <Calendar className="w-3 h-3 inline mr-1" />
+                  Entrega de
+                </label>
+                <input
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-600">
+                  <Calendar className="w-3 h-3 inline mr-1" />
+                  Até
+                </label>
+                <input
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {hasActiveFilters && (
+              <button
+                onClick={clearFilters}
+                className="flex items-center text-sm text-gray-600 hover:text-gray-800"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Limpar filtros
+              </button>
+            )}
+          </motion.div>
+        )}
+      </div>
+
+      <div className="p-4 space-y-6">
+        {serviceStatusOptions.map((group, groupIndex) => {
+          const groupServices = filteredServices.filter(service => service.status === group.value);
+          if (groupServices.length === 0) return null;
+
+          const groupTotal = groupServices.reduce((sum, service) => sum + service.value, 0);
+
+          return (
+            <motion.div
+              key={group.value}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: groupIndex * 0.1 }}
+              className="space-y-3"
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold text-gray-800 flex items-center">
+                  <span className={`w-3 h-3 rounded-full mr-2 ${group.color}`}></span>
+                  {group.label}
+                  <span className="text-gray-500 text-sm font-normal ml-2">({groupServices.length})</span>
+                </h3>
+                <span className="text-sm font-semibold text-gray-600">R$ {groupTotal.toFixed(2)}</span>
+              </div>
+
+              {groupServices.map((service) => {
+                const balance = getOutstandingBalance(service, payments);
+                const hourlyRate = getHourlyRate(service.value, service.minutes_worked);
+
+                return (
+                  <button
+                    key={service.id}
+                    onClick={() => navigate(`/service/${service.id}`)}
+                    className="w-full bg-white rounded-xl p-4 shadow-sm text-left hover:shadow-md transition-shadow"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-gray-800">{service.client_name}</p>
+                        <p className="text-gray-600 text-sm truncate">{service.description}</p>
+                        {service.delivery_date && (
+                          <p className="text-gray-500 text-xs mt-1">
+                            Entrega: {new Date(service.delivery_date + 'T00:00:00').toLocaleDateString('pt-BR')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 ml-3">
+                        <div className="text-right">
+                          <p className="font-semibold text-green-600">R$ {service.value.toFixed(2)}</p>
+                          {balance > 0 && balance < service.value && (
+                            <p className="text-red-600 text-xs">Falta R$ {balance.toFixed(2)}</p>
+                          )}
+                          {hourlyRate !== null && (
+                            <p className="text-gray-500 text-xs">R$ {hourlyRate.toFixed(2)}/h</p>
+                          )}
+                        </div>
+                        <ChevronRight className="w-4 h-4 text-gray-400" />
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </motion.div>
+          );
+        })}
+
+        {filteredServices.length === 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-center py-12"
+          >
+            <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {services.length > 0 ? 'Nenhum serviço encontrado' : 'Ainda não há serviços'}
+            </p>
+            <p className="text-gray-400 text-sm">
+              {services.length > 0 ? 'Tente ajustar a busca ou os filtros' : 'Cadastre seu primeiro serviço para começar'}
+            </p>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+};
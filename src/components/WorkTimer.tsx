@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { Play, Pause, Square } from 'lucide-react';
+import { startWorkSession, stopWorkSession, getOpenWorkSession } from '../hooks/useSupabase';
+import { WorkSession } from '../lib/supabase';
+import { getRunningSession, getTrackedMinutes } from '../lib/workTime';
+
+interface WorkTimerProps {
+  sessions: WorkSession[];
+  serviceId?: string;
+  onChange: () => void;
+  onFinish?: () => void;
+}
+
+const formatElapsed = (minutes: number) => {
+  const totalSeconds = Math.floor(minutes * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  return [hours, mins, secs].map(part => String(part).padStart(2, '0')).join(':');
+};
+
+export const WorkTimer: React.FC<WorkTimerProps> = ({ sessions, serviceId, onChange, onFinish }) => {
+  const [now, setNow] = useState(Date.now());
+  const [busy, setBusy] = useState(false);
+  const running = getRunningSession(sessions);
+
+  // Tick once a second while running; the start time lives in the database,
+  // so the timer survives reloads and other devices
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const handleToggle = async () => {
+    setBusy(true);
+
+    try {
+      if (running) {
+        await stopWorkSession();
+      } else {
+        // Only one timer runs at a time: ask before pausing the one running elsewhere
+        const open = await getOpenWorkSession();
+        if (open && open.service_id !== (serviceId ?? null)) {
+          const label = open.service
+            ? `do serviço "${open.service.description}" de ${open.service.client_name}`
+            : 'do contador de peças';
+          if (!confirm(`O cronômetro ${label} está rodando. Pausar aquele e iniciar este?`)) return;
+        }
+        await startWorkSession(serviceId);
+      }
+      setNow(Date.now());
+      onChange();
+    } catch (error) {
+      console.error('Erro ao atualizar cronômetro:', error);
+      alert('Erro ao atualizar cronômetro. Tente novamente.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between">
+      <span className={`text-2xl font-bold font-mono ${running ? 'text-green-600' : 'text-gray-800'}`}>
+        {formatElapsed(getTrackedMinutes(sessions, now))}
+      </span>
+      <div className="flex items-center space-x-2">
+        {onFinish && sessions.length > 0 && (
+          <button
+            type="button"
+            onClick={onFinish}
+            disabled={busy}
+            className="px-4 py-2 rounded-xl font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 flex items-center transition-colors disabled:opacity-50"
+          >
+            <Square className="w-4 h-4 mr-1" />
+            Finalizar
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleToggle}
+          disabled={busy}
+          className={`px-4 py-2 rounded-xl font-medium text-white flex items-center transition-colors disabled:opacity-50 ${
+            running ? 'bg-amber-500 hover:bg-amber-600' : 'bg-green-500 hover:bg-green-600'
+          }`}
+        >
+          {running ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+          {running ? 'Pausar' : sessions.length > 0 ? 'Continuar' : 'Iniciar'}
+        </button>
+      </div>
+    </div>
+  );
+};
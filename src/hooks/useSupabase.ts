@@ -1,5 +1,8 @@
-import { useState, useEffect } from 'react';
-import { supabase, type Client, type Service, type PieceCounter, type PieceCounterHistory } from '../lib/supabase';
+import { useState, useEffect, useRef } from 'react';
+import { supabase, type Profile, type Client, type Service, type PieceCounter, type PieceCounterHistory, type ServicePayment, type ServiceItem, type ClientMeasurement, type ServiceCatalogItem, type ServicePhoto, type Expense, type Material, type ServiceMaterial, type WorkSession, type ClientContact, type PieceRate, type PieceLot, type PieceCounterHistoryAudit, type PieceCounterTotals } from '../lib/supabase';
+import { getPhotoStorage } from '../lib/photoStorage';
+import { compressImage } from '../lib/imageCompression';
+import { parseDateKey, addDays } from '../lib/dates';
 
 export const useSupabase = () => {
   const [user, setUser] = useState(null);
@@ -25,6 +28,37 @@ export const useSupabase = () => {
   return { user, loading };
 };
 
+export const useProfile = () => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfile = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      setProfile(data);
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfile();
+  }, []);
+
+  return { profile, loading, refetch: fetchProfile };
+};
+
 export const useClients = () => {
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
@@ -52,6 +86,120 @@ export const useClients = () => {
   return { clients, loading, refetch: fetchClients };
 };
 
+// Everything shown on the client page: the client, their services with
+// payments, and their piece counter with its history
+export const useClient = (clientId?: string) => {
+  const [client, setClient] = useState<Client | null>(null);
+  const [services, setServices] = useState<Service[]>([]);
+  const [payments, setPayments] = useState<ServicePayment[]>([]);
+  const [counter, setCounter] = useState<PieceCounter | null>(null);
+  const [history, setHistory] = useState<PieceCounterHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchClient = async () => {
+    if (!clientId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [clientResult, servicesResult, counterResult] = await Promise.all([
+        supabase
+          .from('clients')
+          .select('*')
+          .eq('id', clientId)
+          .single(),
+        supabase
+          .from('services')
+          .select('*')
+          .eq('client_id', clientId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('piece_counters')
+          .select('*')
+          .eq('client_id', clientId)
+          .maybeSingle()
+      ]);
+
+      if (clientResult.error) throw clientResult.error;
+      if (servicesResult.error) throw servicesResult.error;
+      if (counterResult.error) throw counterResult.error;
+
+      const serviceIds = (servicesResult.data || []).map(service => service.id);
+      const { data: paymentsData, error: paymentsError } = await supabase
+        .from('service_payments')
+        .select('*')
+        .in('service_id', serviceIds)
+        .order('paid_at', { ascending: false });
+
+      if (paymentsError) throw paymentsError;
+
+      let historyData: PieceCounterHistory[] = [];
+      if (counterResult.data) {
+        const { data, error } = await supabase
+          .from('piece_counter_history')
+          .select('*')
+          .eq('counter_id', counterResult.data.id)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        historyData = data || [];
+      }
+
+      setClient(clientResult.data);
+      setServices(servicesResult.data || []);
+      setCounter(counterResult.data);
+      setPayments(paymentsData || []);
+      setHistory(historyData);
+    } catch (error) {
+      console.error('Error fetching client:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchClient();
+  }, [clientId]);
+
+  return { client, services, payments, counter, history, loading, refetch: fetchClient };
+};
+
+export const useClientMeasurements = (clientId?: string) => {
+  const [measurements, setMeasurements] = useState<ClientMeasurement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMeasurements = async () => {
+    if (!clientId) {
+      setMeasurements([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('client_measurements')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('measured_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setMeasurements(data || []);
+    } catch (error) {
+      console.error('Error fetching client measurements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMeasurements();
+  }, [clientId]);
+
+  return { measurements, loading, refetch: fetchMeasurements };
+};
+
 export const useServices = () => {
   const [services, setServices] = useState<Service[]>([]);
   const [loading, setLoading] = useState(true);
@@ -79,168 +227,1442 @@ export const useServices = () => {
   return { services, loading, refetch: fetchServices };
 };
 
-export const usePieceCounters = () => {
-  const [counters, setCounters] = useState<PieceCounter[]>([]);
+export const useService = (serviceId?: string) => {
+  const [service, setService] = useState<Service | null>(null);
+  const [items, setItems] = useState<ServiceItem[]>([]);
   const [loading, setLoading] = useState(true);
 
-  const fetchCounters = async () => {
+  const fetchService = async () => {
+    if (!serviceId) {
+      setLoading(false);
+      return;
+    }
+
     try {
-      const { data, error } = await supabase
-        .from('piece_counters')
+      const [serviceResult, itemsResult] = await Promise.all([
+        supabase
+          .from('services')
+          .select('*')
+          .eq('id', serviceId)
+          .single(),
+        supabase
+          .from('service_items')
+          .select('*')
+          .eq('service_id', serviceId)
+          .order('position', { ascending: true })
+      ]);
+
+      if (serviceResult.error) throw serviceResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      setService(serviceResult.data);
+      setItems(itemsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching service:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchService();
+  }, [serviceId]);
+
+  return { service, items, loading, refetch: fetchService };
+};
+
+export const useServicePayments = (serviceId?: string) => {
+  const [payments, setPayments] = useState<ServicePayment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPayments = async () => {
+    try {
+      let query = supabase
+        .from('service_payments')
         .select('*')
-        .order('updated_at', { ascending: false });
+        .order('paid_at', { ascending: false });
+
+      if (serviceId) {
+        query = query.eq('service_id', serviceId);
+      }
+
+      const { data, error } = await query;
 
       if (error) throw error;
-      setCounters(data || []);
+      setPayments(data || []);
     } catch (error) {
-      console.error('Error fetching piece counters:', error);
+      console.error('Error fetching service payments:', error);
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchCounters();
-  }, []);
+    fetchPayments();
+  }, [serviceId]);
 
-  return { counters, loading, refetch: fetchCounters };
+  return { payments, loading, refetch: fetchPayments };
 };
 
-export const usePieceCounterHistory = (counterId?: string) => {
-  const [history, setHistory] = useState<PieceCounterHistory[]>([]);
+export const useServiceItems = (serviceId?: string) => {
+  const [items, setItems] = useState<ServiceItem[]>([]);
   const [loading, setLoading] = useState(true);
 
-  const fetchHistory = async () => {
+  const fetchItems = async () => {
     try {
       let query = supabase
-        .from('piece_counter_history')
+        .from('service_items')
         .select('*')
-        .order('created_at', { ascending: false });
+        .order('position', { ascending: true });
 
-      if (counterId) {
-        query = query.eq('counter_id', counterId);
+      if (serviceId) {
+        query = query.eq('service_id', serviceId);
       }
 
       const { data, error } = await query;
 
       if (error) throw error;
-      setHistory(data || []);
+      setItems(data || []);
     } catch (error) {
-      console.error('Error fetching piece counter history:', error);
+      console.error('Error fetching service items:', error);
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchHistory();
-  }, [counterId]);
+    fetchItems();
+  }, [serviceId]);
 
-  return { history, loading, refetch: fetchHistory };
+  return { items, loading, refetch: fetchItems };
 };
 
-export const createService = async (serviceData: {
-  client_name: string;
-  description: string;
-  value: number;
-  delivery_date?: string;
-  status: 'progress' | 'delivered' | 'paid';
-}) => {
-  try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
+export const useServiceCatalog = () => {
+  const [catalog, setCatalog] = useState<ServiceCatalogItem[]>([]);
+  const [loading, setLoading] = useState(true);
 
-    // Get or create client
-    const { data: clientId, error: clientError } = await supabase
-      .rpc('get_or_create_client', {
-        p_user_id: user.id,
-        p_client_name: serviceData.client_name
-      });
+  const fetchCatalog = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('service_catalog')
+        .select('*')
+        .order('position', { ascending: true })
+        .order('name', { ascending: true });
 
-    if (clientError) throw clientError;
+      if (error) throw error;
+      setCatalog(data || []);
+    } catch (error) {
+      console.error('Error fetching service catalog:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    // Create service
-    const { data, error } = await supabase
-      .from('services')
-      .insert({
-        user_id: user.id,
-        client_id: clientId,
-        client_name: serviceData.client_name,
-        description: serviceData.description,
-        value: serviceData.value,
-        delivery_date: serviceData.delivery_date,
-        status: serviceData.status
-      })
-      .select()
-      .single();
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
 
-    if (error) throw error;
-    return data;
-  } catch (error) {
-    console.error('Error creating service:', error);
-    throw error;
-  }
+  return { catalog, loading, refetch: fetchCatalog };
 };
 
-export const addPiecesToCounter = async (data: {
-  client_name: string;
-  pieces_added: number;
-  description?: string;
-}) => {
-  try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
+export const useServicePhotos = (serviceId: string) => {
+  const [photos, setPhotos] = useState<(ServicePhoto & { url: string })[]>([]);
+  const [loading, setLoading] = useState(true);
 
-    // Get or create client first
-    const { data: clientId, error: clientError } = await supabase
-      .rpc('get_or_create_client', {
-        p_user_id: user.id,
-        p_client_name: data.client_name
-      });
+  const fetchPhotos = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('service_photos')
+        .select('*')
+        .eq('service_id', serviceId)
+        .order('created_at', { ascending: true });
 
-    if (clientError) throw clientError;
+      if (error) throw error;
 
-    // Get or create counter
-    const { data: counterId, error: counterError } = await supabase
-      .rpc('get_or_create_piece_counter', {
-        p_user_id: user.id,
-        p_client_id: clientId,
-        p_client_name: data.client_name
-      });
+      const storage = getPhotoStorage();
+      const photosWithUrls = await Promise.all(
+        (data || []).map(async (photo: ServicePhoto) => ({
+          ...photo,
+          url: await storage.getUrl(photo.storage_path)
+        }))
+      );
+      setPhotos(photosWithUrls);
+    } catch (error) {
+      console.error('Error fetching service photos:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    if (counterError) throw counterError;
+  useEffect(() => {
+    fetchPhotos();
+  }, [serviceId]);
 
-    // Add history entry (trigger will update counter automatically)
-    const { data: historyData, error: historyError } = await supabase
-      .from('piece_counter_history')
-      .insert({
-        user_id: user.id,
-        counter_id: counterId,
-        client_name: data.client_name,
-        pieces_added: data.pieces_added,
-        description: data.description
-      })
-      .select()
-      .single();
+  return { photos, loading, refetch: fetchPhotos };
+};
 
-    if (historyError) throw historyError;
-    return historyData;
-  } catch (error) {
-    console.error('Error adding pieces to counter:', error);
-    throw error;
-  }
+export const useExpenses = () => {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchExpenses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('*')
+        .order('spent_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setExpenses(data || []);
+    } catch (error) {
+      console.error('Error fetching expenses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExpenses();
+  }, []);
+
+  return { expenses, loading, refetch: fetchExpenses };
 };
 
-export const updateClientFavorite = async (clientId: string, isFavorite: boolean) => {
-  try {
-    const { error } = await supabase
-      .from('clients')
-      .update({ is_favorite: isFavorite })
-      .eq('id', clientId);
+export const useClientContacts = () => {
+  const [contacts, setContacts] = useState<ClientContact[]>([]);
+  const [loading, setLoading] = useState(true);
 
-    if (error) throw error;
-  } catch (error) {
-    console.error('Error updating client favorite:', error);
+  const fetchContacts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('client_contacts')
+        .select('*')
+        .order('contacted_at', { ascending: false });
+
+      if (error) throw error;
+      setContacts(data || []);
+    } catch (error) {
+      console.error('Error fetching client contacts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchContacts();
+  }, []);
+
+  return { contacts, loading, refetch: fetchContacts };
+};
+
+export const useMaterials = () => {
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMaterials = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('materials')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setMaterials(data || []);
+    } catch (error) {
+      console.error('Error fetching materials:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMaterials();
+  }, []);
+
+  return { materials, loading, refetch: fetchMaterials };
+};
+
+export const useServiceMaterials = (serviceId?: string) => {
+  const [serviceMaterials, setServiceMaterials] = useState<ServiceMaterial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  const fetchServiceMaterials = async () => {
+    if (!serviceId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('service_materials')
+        .select('*')
+        .eq('service_id', serviceId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setServiceMaterials(data || []);
+      setFailed(false);
+    } catch (error) {
+      console.error('Error fetching service materials:', error);
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchServiceMaterials();
+  }, [serviceId]);
+
+  // Saving an edit replaces the materials, so callers must not save after a failed load
+  return { serviceMaterials, loading, failed, refetch: fetchServiceMaterials };
+};
+
+// Timer sessions of a service, or the piece counter sessions not yet
+// attached to a counter entry when no service is given
+export const useWorkSessions = (serviceId?: string) => {
+  const [sessions, setSessions] = useState<WorkSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSessions = async () => {
+    try {
+      let query = supabase
+        .from('work_sessions')
+        .select('*')
+        .order('started_at', { ascending: true });
+
+      if (serviceId) {
+        query = query.eq('service_id', serviceId);
+      } else {
+        query = query.is('service_id', null).is('counter_history_id', null);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setSessions(data || []);
+    } catch (error) {
+      console.error('Error fetching work sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, [serviceId]);
+
+  return { sessions, loading, refetch: fetchSessions };
+};
+
+export const usePieceCounters = () => {
+  const [counters, setCounters] = useState<PieceCounter[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCounters = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('piece_counters')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setCounters(data || []);
+    } catch (error) {
+      console.error('Error fetching piece counters:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCounters();
+  }, []);
+
+  // Puts a counter returned by add_pieces_to_counter on top without fetching the list again
+  const upsertCounter = (counter: PieceCounter) => {
+    setCounters(prev => [counter, ...prev.filter(item => item.id !== counter.id)]);
+  };
+
+  return { counters, loading, refetch: fetchCounters, upsertCounter };
+};
+
+export interface CounterHistoryFilters {
+  counterId?: string;
+  from?: string; // date keys, both inclusive
+  to?: string;
+  direction?: 'add' | 'remove';
+}
+
+// Date keys are local days, so the bounds are converted here rather than in SQL
+const getHistoryBounds = (filters: CounterHistoryFilters) => ({
+  from: filters.from ? parseDateKey(filters.from).toISOString() : null,
+  to: filters.to ? addDays(parseDateKey(filters.to), 1).toISOString() : null
+});
+
+// The API returns at most 1000 rows per request
+const HISTORY_BATCH_SIZE = 1000;
+
+// Every entry in the period, read in batches so long periods are never cut short
+export const usePieceCounterHistory = (filters: CounterHistoryFilters) => {
+  const [history, setHistory] = useState<PieceCounterHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const requestId = useRef(0);
+
+  const fetchHistory = async () => {
+    const request = ++requestId.current;
+
+    try {
+      const { from, to } = getHistoryBounds(filters);
+      const rows: PieceCounterHistory[] = [];
+
+      for (;;) {
+        let query = supabase
+          .from('piece_counter_history')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .order('id')
+          .range(rows.length, rows.length + HISTORY_BATCH_SIZE - 1);
+
+        if (filters.counterId) query = query.eq('counter_id', filters.counterId);
+        if (from) query = query.gte('created_at', from);
+        if (to) query = query.lt('created_at', to);
+
+        const { data, error } = await query;
+
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < HISTORY_BATCH_SIZE) break;
+      }
+
+      if (request !== requestId.current) return;
+      setHistory(rows);
+    } catch (error) {
+      console.error('Error fetching piece counter history:', error);
+    } finally {
+      if (request === requestId.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [filters.counterId, filters.from, filters.to]);
+
+  return { history, loading, refetch: fetchHistory };
+};
+
+export const usePieceCounterHistoryPage = (filters: CounterHistoryFilters, pageSize = 20) => {
+  const [history, setHistory] = useState<PieceCounterHistory[]>([]);
+  const [count, setCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Filters can change while a page is loading; only the latest request may update state
+  const requestId = useRef(0);
+
+  const fetchPage = async (offset: number) => {
+    const { from, to } = getHistoryBounds(filters);
+
+    let query = supabase
+      .from('piece_counter_history')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (filters.counterId) query = query.eq('counter_id', filters.counterId);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    if (filters.direction === 'add') query = query.gt('pieces_added', 0);
+    if (filters.direction === 'remove') query = query.lt('pieces_added', 0);
+
+    const { data, count: total, error } = await query;
+
+    if (error) throw error;
+    return { rows: data || [], total: total ?? 0 };
+  };
+
+  const fetchHistory = async () => {
+    const request = ++requestId.current;
+
+    try {
+      const { rows, total } = await fetchPage(0);
+      if (request !== requestId.current) return;
+      setHistory(rows);
+      setCount(total);
+    } catch (error) {
+      console.error('Error fetching piece counter history:', error);
+    } finally {
+      if (request === requestId.current) setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    const request = requestId.current;
+    setLoadingMore(true);
+
+    try {
+      const { rows, total } = await fetchPage(history.length);
+      if (request !== requestId.current) return;
+      setHistory(prev => [...prev, ...rows]);
+      setCount(total);
+    } catch (error) {
+      console.error('Error fetching piece counter history:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchHistory();
+  }, [filters.counterId, filters.from, filters.to, filters.direction]);
+
+  return { history, count, loading, loadingMore, hasMore: history.length < count, loadMore, refetch: fetchHistory };
+};
+
+export const usePieceCounterTotals = (filters: CounterHistoryFilters) => {
+  const [totals, setTotals] = useState<PieceCounterTotals[]>([]);
+  const [loading, setLoading] = useState(true);
+  const requestId = useRef(0);
+
+  const fetchTotals = async () => {
+    const request = ++requestId.current;
+
+    try {
+      const { from, to } = getHistoryBounds(filters);
+      const { data, error } = await supabase
+        .rpc('get_piece_counter_totals', {
+          p_from: from,
+          p_to: to,
+          p_counter_id: filters.counterId ?? null,
+          p_direction: filters.direction ?? null
+        });
+
+      if (error) throw error;
+      if (request === requestId.current) setTotals(data || []);
+    } catch (error) {
+      console.error('Error fetching piece counter totals:', error);
+    } finally {
+      if (request === requestId.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTotals();
+  }, [filters.counterId, filters.from, filters.to, filters.direction]);
+
+  return { totals, loading, refetch: fetchTotals };
+};
+
+// Edits of the entries on screen only, oldest first
+export const usePieceCounterAudit = (historyIds: string[]) => {
+  const [audit, setAudit] = useState<PieceCounterHistoryAudit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const requestId = useRef(0);
+  const idsKey = historyIds.join(',');
+
+  const fetchAudit = async () => {
+    const request = ++requestId.current;
+
+    try {
+      if (historyIds.length === 0) {
+        setAudit([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('piece_counter_history_audit')
+        .select('*')
+        .in('history_id', historyIds)
+        .eq('action', 'update')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      if (request === requestId.current) setAudit(data || []);
+    } catch (error) {
+      console.error('Error fetching piece counter audit:', error);
+    } finally {
+      if (request === requestId.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAudit();
+  }, [idsKey]);
+
+  return { audit, loading, refetch: fetchAudit };
+};
+
+export const usePieceRates = () => {
+  const [rates, setRates] = useState<PieceRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('piece_rates')
+        .select('*')
+        .order('piece_type', { ascending: true });
+
+      if (error) throw error;
+      setRates(data || []);
+    } catch (error) {
+      console.error('Error fetching piece rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  return { rates, loading, refetch: fetchRates };
+};
+
+export const usePieceLots = () => {
+  const [lots, setLots] = useState<PieceLot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLots = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('piece_lots')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLots(data || []);
+    } catch (error) {
+      console.error('Error fetching piece lots:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLots();
+  }, []);
+
+  return { lots, loading, refetch: fetchLots };
+};
+
+export type ServiceItemInput = Pick<ServiceItem, 'description' | 'quantity' | 'unit_price'>;
+export type ServiceMaterialInput = Pick<ServiceMaterial, 'material_id' | 'quantity' | 'unit_cost'>;
+
+// One transaction on the server: client, service, items and materials are saved together or not at all
+export const createService = async (serviceData: {
+  client_name: string;
+  description: string;
+  value: number;
+  delivery_date?: string;
+  status: 'progress' | 'delivered' | 'paid';
+  items?: ServiceItemInput[];
+  materials?: ServiceMaterialInput[];
+}): Promise<{ service: Service; client: Client }> => {
+  try {
+    const { data, error } = await supabase
+      .rpc('create_service', {
+        p_client_name: serviceData.client_name,
+        p_description: serviceData.description,
+        p_value: serviceData.value,
+        p_status: serviceData.status,
+        p_delivery_date: serviceData.delivery_date || null,
+        p_items: serviceData.items ?? [],
+        p_materials: serviceData.materials ?? []
+      });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error creating service:', error);
+    throw error;
+  }
+};
+
+// Same as createService: the service, its items and its materials are saved in one transaction
+export const updateService = async (serviceId: string, serviceData: {
+  client_name: string;
+  description: string;
+  value: number;
+  delivery_date?: string | null;
+  status: 'progress' | 'delivered' | 'paid';
+  items?: ServiceItemInput[];
+  materials?: ServiceMaterialInput[];
+}): Promise<{ service: Service; client: Client }> => {
+  try {
+    const { data, error } = await supabase
+      .rpc('update_service', {
+        p_service_id: serviceId,
+        p_client_name: serviceData.client_name,
+        p_description: serviceData.description,
+        p_value: serviceData.value,
+        p_status: serviceData.status,
+        p_delivery_date: serviceData.delivery_date || null,
+        p_items: serviceData.items ?? null,
+        p_materials: serviceData.materials ?? null
+      });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating service:', error);
+    throw error;
+  }
+};
+
+export const setServiceStatus = async (serviceId: string, status: Service['status']) => {
+  try {
+    const { data, error } = await supabase
+      .from('services')
+      .update({ status })
+      .eq('id', serviceId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating service status:', error);
+    throw error;
+  }
+};
+
+// Best effort: the rows are already deleted, so a leftover file is only wasted space
+const removePhotoFiles = async (paths: string[]) => {
+  try {
+    await getPhotoStorage().remove(paths);
+  } catch (error) {
+    console.error('Error removing photo files:', error);
+  }
+};
+
+export const deleteService = async (serviceId: string) => {
+  try {
+    // Photo rows cascade with the service, but the files must be removed from storage.
+    // Paths are read first and the files removed only once the service is really gone
+    const { data: photos, error: photosError } = await supabase
+      .from('service_photos')
+      .select('storage_path')
+      .eq('service_id', serviceId);
+
+    if (photosError) throw photosError;
+
+    const { error } = await supabase
+      .from('services')
+      .delete()
+      .eq('id', serviceId);
+
+    if (error) throw error;
+
+    await removePhotoFiles((photos || []).map(photo => photo.storage_path));
+  } catch (error) {
+    console.error('Error deleting service:', error);
+    throw error;
+  }
+};
+
+export const addServicePayment = async (paymentData: {
+  service_id: string;
+  amount: number;
+  method: ServicePayment['method'];
+  paid_at?: string;
+}) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    // Insert payment (trigger updates client total_spent)
+    const { data, error } = await supabase
+      .from('service_payments')
+      .insert({
+        user_id: user.id,
+        service_id: paymentData.service_id,
+        amount: paymentData.amount,
+        method: paymentData.method,
+        paid_at: paymentData.paid_at || undefined
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error adding service payment:', error);
+    throw error;
+  }
+};
+
+export const deleteServicePayment = async (paymentId: string) => {
+  try {
+    const { error } = await supabase
+      .from('service_payments')
+      .delete()
+      .eq('id', paymentId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting service payment:', error);
+    throw error;
+  }
+};
+
+export const uploadServicePhoto = async (serviceId: string, file: File, kind: ServicePhoto['kind']) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const compressed = await compressImage(file);
+    const storagePath = `${user.id}/${serviceId}/${Date.now()}.jpg`;
+    await getPhotoStorage().upload(storagePath, compressed);
+
+    const { data, error } = await supabase
+      .from('service_photos')
+      .insert({
+        user_id: user.id,
+        service_id: serviceId,
+        storage_path: storagePath,
+        kind
+      })
+      .select()
+      .single();
+
+    if (error) {
+      await getPhotoStorage().remove([storagePath]);
+      throw error;
+    }
+    return data;
+  } catch (error) {
+    console.error('Error uploading service photo:', error);
+    throw error;
+  }
+};
+
+export const deleteServicePhoto = async (photo: ServicePhoto) => {
+  try {
+    const { error } = await supabase
+      .from('service_photos')
+      .delete()
+      .eq('id', photo.id);
+
+    if (error) throw error;
+    await getPhotoStorage().remove([photo.storage_path]);
+  } catch (error) {
+    console.error('Error deleting service photo:', error);
+    throw error;
+  }
+};
+
+// One transaction on the server: client, counter, entry and timer sessions. Removals that
+// would make the counter negative are rejected
+export const addPiecesToCounter = async (data: {
+  client_name: string;
+  pieces_added: number;
+  description?: string;
+  minutes_worked?: number;
+  piece_type?: string;
+  rate?: number;
+  lot_id?: string;
+}): Promise<{ entry: PieceCounterHistory; counter: PieceCounter; client: Client }> => {
+  try {
+    const { data: result, error } = await supabase
+      .rpc('add_pieces_to_counter', {
+        p_client_name: data.client_name,
+        p_pieces_added: data.pieces_added,
+        p_description: data.description ?? null,
+        p_minutes_worked: data.minutes_worked ?? null,
+        p_piece_type: data.piece_type ?? null,
+        p_rate: data.rate ?? null,
+        p_lot_id: data.lot_id ?? null
+      });
+
+    if (error) throw error;
+    return result;
+  } catch (error) {
+    console.error('Error adding pieces to counter:', error);
+    throw error;
+  }
+};
+
+export type CounterHistoryInput = Pick<PieceCounterHistory, 'pieces_added' | 'description' | 'piece_type' | 'rate'>;
+
+// Triggers adjust the counter total and the lot, and keep the previous values in the audit table
+export const updateCounterHistoryEntry = async (entryId: string, entryData: CounterHistoryInput) => {
+  try {
+    const { data, error } = await supabase
+      .from('piece_counter_history')
+      .update(entryData)
+      .eq('id', entryId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating piece counter history:', error);
+    throw error;
+  }
+};
+
+export const deleteCounterHistoryEntry = async (entryId: string) => {
+  try {
+    const { error } = await supabase
+      .from('piece_counter_history')
+      .delete()
+      .eq('id', entryId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting piece counter history:', error);
+    throw error;
+  }
+};
+
+// Only one session can be open at a time, so starting a timer pauses any other
+export const startWorkSession = async (serviceId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    await stopWorkSession();
+
+    const { data, error } = await supabase
+      .from('work_sessions')
+      .insert({ user_id: user.id, service_id: serviceId ?? null })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error starting work session:', error);
+    throw error;
+  }
+};
+
+export type OpenWorkSession = WorkSession & { service: Pick<Service, 'client_name' | 'description'> | null };
+
+export const getOpenWorkSession = async (): Promise<OpenWorkSession | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('work_sessions')
+      .select('*, service:services(client_name, description)')
+      .is('ended_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching open work session:', error);
+    throw error;
+  }
+};
+
+export const stopWorkSession = async () => {
+  try {
+    const { error } = await supabase
+      .from('work_sessions')
+      .update({ ended_at: new Date().toISOString() })
+      .is('ended_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error stopping work session:', error);
+    throw error;
+  }
+};
+
+// Finishing closes the service's running session and marks its tracked time as final
+export const setServiceTimerFinished = async (serviceId: string, finished: boolean) => {
+  try {
+    const now = new Date().toISOString();
+
+    if (finished) {
+      const { error: sessionError } = await supabase
+        .from('work_sessions')
+        .update({ ended_at: now })
+        .eq('service_id', serviceId)
+        .is('ended_at', null);
+
+      if (sessionError) throw sessionError;
+    }
+
+    const { data, error } = await supabase
+      .from('services')
+      .update({ timer_finished_at: finished ? now : null })
+      .eq('id', serviceId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error finishing service timer:', error);
+    throw error;
+  }
+};
+
+export const updateProfile = async (changes: Partial<Omit<Profile, 'id' | 'created_at' | 'updated_at'>>) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('id', user.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    throw error;
+  }
+};
+
+export const saveCatalogItem = async (itemData: {
+  name: string;
+  default_price: number;
+  estimated_minutes: number | null;
+  position?: number;
+}, itemId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (itemId) {
+      const { data, error } = await supabase
+        .from('service_catalog')
+        .update(itemData)
+        .eq('id', itemId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('service_catalog')
+      .insert({ ...itemData, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error saving catalog item:', error);
+    throw error;
+  }
+};
+
+export const deleteCatalogItem = async (itemId: string) => {
+  try {
+    const { error } = await supabase
+      .from('service_catalog')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting catalog item:', error);
+    throw error;
+  }
+};
+
+export const updateClientFavorite = async (clientId: string, isFavorite: boolean) => {
+  try {
+    const { error } = await supabase
+      .from('clients')
+      .update({ is_favorite: isFavorite })
+      .eq('id', clientId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating client favorite:', error);
+    throw error;
+  }
+};
+
+export type ClientInput = Pick<Client, 'name' | 'phone' | 'email' | 'address' | 'birthday' | 'notes'>;
+
+export const createClient = async (clientData: ClientInput) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('clients')
+      .insert({ ...clientData, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error creating client:', error);
+    throw error;
+  }
+};
+
+// Bulk insert used by the contacts import
+export const importClients = async (clientsData: ClientInput[]) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('clients')
+      .insert(clientsData.map(client => ({ ...client, user_id: user.id })))
+      .select();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error importing clients:', error);
+    throw error;
+  }
+};
+
+// One transaction on the server: the client and the copies of its name in
+// services, counters and counter entries
+export const updateClient = async (clientId: string, clientData: ClientInput): Promise<Client> => {
+  try {
+    const { data, error } = await supabase
+      .rpc('update_client', {
+        p_client_id: clientId,
+        p_name: clientData.name,
+        p_phone: clientData.phone,
+        p_email: clientData.email,
+        p_address: clientData.address,
+        p_birthday: clientData.birthday,
+        p_notes: clientData.notes
+      });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating client:', error);
+    throw error;
+  }
+};
+
+// Services, counters and measurements cascade with the client; expenses keep
+// their record without the link. Service photos are removed from storage first
+export const deleteClient = async (clientId: string) => {
+  try {
+    const { data: photos, error: photosError } = await supabase
+      .from('service_photos')
+      .select('storage_path, services!inner(client_id)')
+      .eq('services.client_id', clientId);
+
+    if (photosError) throw photosError;
+
+    const { error } = await supabase
+      .from('clients')
+      .delete()
+      .eq('id', clientId);
+
+    if (error) throw error;
+
+    await removePhotoFiles((photos || []).map(photo => photo.storage_path));
+  } catch (error) {
+    console.error('Error deleting client:', error);
+    throw error;
+  }
+};
+
+// Moves services, counter history, measurements and expenses of the source
+// client onto the target, then deletes the source (see merge_clients)
+export const mergeClients = async (targetId: string, sourceId: string) => {
+  try {
+    const { error } = await supabase
+      .rpc('merge_clients', {
+        p_target_id: targetId,
+        p_source_id: sourceId
+      });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error merging clients:', error);
+    throw error;
+  }
+};
+
+export const recordClientContact = async (clientId: string, kind: ClientContact['kind']) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('client_contacts')
+      .insert({ user_id: user.id, client_id: clientId, kind });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error recording client contact:', error);
+    throw error;
+  }
+};
+
+export type ClientMeasurementInput = Omit<ClientMeasurement, 'id' | 'user_id' | 'created_at'>;
+
+export const saveClientMeasurement = async (measurementData: ClientMeasurementInput, measurementId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (measurementId) {
+      const { data, error } = await supabase
+        .from('client_measurements')
+        .update(measurementData)
+        .eq('id', measurementId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    // New measurement set (older sets are kept as history)
+    const { data, error } = await supabase
+      .from('client_measurements')
+      .insert({ ...measurementData, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error saving client measurement:', error);
+    throw error;
+  }
+};
+
+export const deleteClientMeasurement = async (measurementId: string) => {
+  try {
+    const { error } = await supabase
+      .from('client_measurements')
+      .delete()
+      .eq('id', measurementId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting client measurement:', error);
+    throw error;
+  }
+};
+
+export type ExpenseInput = Omit<Expense, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export const saveExpense = async (expenseData: ExpenseInput, expenseId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (expenseId) {
+      const { data, error } = await supabase
+        .from('expenses')
+        .update(expenseData)
+        .eq('id', expenseId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .insert({ ...expenseData, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error saving expense:', error);
+    throw error;
+  }
+};
+
+export const deleteExpense = async (expenseId: string) => {
+  try {
+    const { error } = await supabase
+      .from('expenses')
+      .delete()
+      .eq('id', expenseId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting expense:', error);
+    throw error;
+  }
+};
+
+export type MaterialInput = Omit<Material, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export const saveMaterial = async (materialData: MaterialInput, materialId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (materialId) {
+      const { data, error } = await supabase
+        .from('materials')
+        .update(materialData)
+        .eq('id', materialId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('materials')
+      .insert({ ...materialData, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error saving material:', error);
+    throw error;
+  }
+};
+
+export const deleteMaterial = async (materialId: string) => {
+  try {
+    const { error } = await supabase
+      .from('materials')
+      .delete()
+      .eq('id', materialId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting material:', error);
+    throw error;
+  }
+};
+
+export type PieceRateInput = Pick<PieceRate, 'client_id' | 'piece_type' | 'rate'>;
+
+export const savePieceRate = async (rateData: PieceRateInput, rateId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (rateId) {
+      const { data, error } = await supabase
+        .from('piece_rates')
+        .update(rateData)
+        .eq('id', rateId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('piece_rates')
+      .insert({ ...rateData, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error saving piece rate:', error);
+    throw error;
+  }
+};
+
+export const deletePieceRate = async (rateId: string) => {
+  try {
+    const { error } = await supabase
+      .from('piece_rates')
+      .delete()
+      .eq('id', rateId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting piece rate:', error);
+    throw error;
+  }
+};
+
+export type PieceLotInput = Pick<PieceLot, 'code' | 'piece_type' | 'sizes' | 'quantity' | 'notes'>;
+
+// One transaction on the server: client, counter and lot
+export const createPieceLot = async (clientName: string, lotData: PieceLotInput): Promise<PieceLot> => {
+  try {
+    const { data, error } = await supabase
+      .rpc('create_piece_lot', {
+        p_client_name: clientName,
+        p_code: lotData.code,
+        p_quantity: lotData.quantity,
+        p_piece_type: lotData.piece_type,
+        p_sizes: lotData.sizes,
+        p_notes: lotData.notes
+      });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error creating piece lot:', error);
+    throw error;
+  }
+};
+
+// Delivered pieces go to the counter; the trigger closes the lot once everything is delivered
+export const deliverLotPieces = async (lot: PieceLot, clientName: string, pieces: number, rate?: number) => {
+  try {
+    return await addPiecesToCounter({
+      client_name: clientName,
+      pieces_added: pieces,
+      description: `Entrega do lote ${lot.code}`,
+      piece_type: lot.piece_type ?? undefined,
+      rate,
+      lot_id: lot.id
+    });
+  } catch (error) {
+    console.error('Error delivering lot pieces:', error);
+    throw error;
+  }
+};
+
+// Defects come off the counter and are pending in the lot again until redone
+export const returnLotDefects = async (lot: PieceLot, clientName: string, pieces: number, rate?: number) => {
+  try {
+    return await addPiecesToCounter({
+      client_name: clientName,
+      pieces_added: -pieces,
+      description: `Defeito devolvido do lote ${lot.code}`,
+      piece_type: lot.piece_type ?? undefined,
+      rate,
+      lot_id: lot.id
+    });
+  } catch (error) {
+    console.error('Error returning lot defects:', error);
+    throw error;
+  }
+};
+
+export const deletePieceLot = async (lotId: string) => {
+  try {
+    const { error } = await supabase
+      .from('piece_lots')
+      .delete()
+      .eq('id', lotId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting piece lot:', error);
     throw error;
   }
 };
@@ -0,0 +1,42 @@
+import { Client, ClientContact } from './supabase';
+import { addDays, startOfWeek, toDateKey } from './dates';
+import { getDaysSinceLastService } from './segments';
+
+// A client messaged less than this many days ago is not offered again
+export const CONTACT_COOLDOWN_DAYS = 30;
+
+// contacts come newest first (useClientContacts); without a kind, any campaign counts
+export const getLastContact = (contacts: ClientContact[], clientId: string, kind?: ClientContact['kind']) => {
+  return contacts.find(contact => contact.client_id === clientId && (!kind || contact.kind === kind)) ?? null;
+};
+
+export const getDaysSinceContact = (contact: ClientContact | null, today = new Date()) => {
+  if (!contact) return null;
+  return Math.floor((today.getTime() - new Date(contact.contacted_at).getTime()) / 86400000);
+};
+
+export const wasRecentlyContacted = (
+  contacts: ClientContact[],
+  clientId: string,
+  kind?: ClientContact['kind'],
+  today = new Date()
+) => {
+  const days = getDaysSinceContact(getLastContact(contacts, clientId, kind), today);
+  return days !== null && days < CONTACT_COOLDOWN_DAYS;
+};
+
+// Clients with no service for more than `days` days, longest absence first
+export const getReactivationCandidates = (clients: Client[], days: number, today = new Date()) => {
+  return clients
+    .filter(client => (getDaysSinceLastService(client, today) ?? -1) > days)
+    .sort((a, b) => (getDaysSinceLastService(b, today) ?? 0) - (getDaysSinceLastService(a, today) ?? 0));
+};
+
+// Birthdays from Monday to Sunday of the current week, in calendar order
+export const getBirthdaysThisWeek = (clients: Client[], today = new Date()) => {
+  const weekDays = Array.from({ length: 7 }, (_, i) => toDateKey(addDays(startOfWeek(today), i)).slice(5));
+
+  return clients
+    .filter(client => client.birthday && weekDays.includes(client.birthday.slice(5)))
+    .sort((a, b) => weekDays.indexOf(a.birthday!.slice(5)) - weekDays.indexOf(b.birthday!.slice(5)));
+};
@@ -0,0 +1,27 @@
+import { Service, ServicePayment } from './supabase';
+import { getReceivedAmount, getOutstandingBalance } from './payments';
+import { parseDateKey, toDateKey } from './dates';
+
+// Money received, average ticket, open balance and how often the client comes back
+export const getClientStats = (services: Service[], payments: ServicePayment[]) => {
+  const totalSpent = services.reduce((sum, service) => sum + getReceivedAmount(service, payments), 0);
+  const totalBilled = services.reduce((sum, service) => sum + service.value, 0);
+  const openBalance = services.reduce((sum, service) => sum + getOutstandingBalance(service, payments), 0);
+
+  // Average days between visits (one visit per distinct service date)
+  const visitDates = Array.from(new Set(services.map(service => toDateKey(new Date(service.created_at))))).sort();
+  const visitFrequencyDays = visitDates.length > 1
+    ? (parseDateKey(visitDates[visitDates.length - 1]).getTime() - parseDateKey(visitDates[0]).getTime())
+      / 86400000 / (visitDates.length - 1)
+    : null;
+
+  return {
+    serviceCount: services.length,
+    totalSpent,
+    averageTicket: services.length > 0 ? totalBilled / services.length : 0,
+    openBalance,
+    visitCount: visitDates.length,
+    visitFrequencyDays,
+    firstVisit: visitDates[0] ?? null
+  };
+};
@@ -0,0 +1,162 @@
+import { Client } from './supabase';
+import { toE164 } from './phone';
+import { isSimilarName, isSamePhone } from './duplicates';
+
+export interface ImportedContact {
+  name: string;
+  phone: string | null;
+  // Phone as found in the file, kept when it can't be converted to E.164
+  rawPhone: string | null;
+  email: string | null;
+  notes: string | null;
+}
+
+export interface ImportRow extends ImportedContact {
+  // Exact same name already registered (or earlier in the file): never imported
+  alreadyRegistered: boolean;
+  // Similar name or same phone: flagged, imported only if the user keeps it selected
+  possibleDuplicate: Client | null;
+}
+
+const toContact = (name: string, rawPhone: string, email: string, notes: string): ImportedContact | null => {
+  const trimmedName = name.replace(/\s+/g, ' ').trim();
+  if (!trimmedName) return null;
+
+  const phone = rawPhone.trim() ? toE164(rawPhone) : null;
+  const extraNotes = rawPhone.trim() && !phone ? `Telefone: ${rawPhone.trim()}` : '';
+
+  return {
+    name: trimmedName,
+    phone,
+    rawPhone: rawPhone.trim() || null,
+    email: email.trim() || null,
+    notes: [notes.trim(), extraNotes].filter(Boolean).join('\n') || null
+  };
+};
+
+// vCard 3.0 / 4.0: unfold continuation lines, then read FN (or N), TEL, EMAIL and NOTE
+export const parseVCard = (text: string): ImportedContact[] => {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const contacts: ImportedContact[] = [];
+  let card: Record<string, string[]> | null = null;
+
+  const unescape = (value: string) => value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    // "item1.TEL;TYPE=CELL" -> property "TEL", params "TYPE=CELL"
+    const [property, ...params] = line.slice(0, separator).replace(/^[^.;]+\./, '').split(';');
+    const key = property.toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (key === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      card = {};
+    } else if (key === 'END' && card) {
+      const fallbackName = (card.N?.[0] || '').split(';').slice(0, 2).reverse().join(' ');
+      const mobile = (card.TEL_CELL || [])[0];
+      const contact = toContact(
+        unescape(card.FN?.[0] || fallbackName),
+        mobile || card.TEL?.[0] || '',
+        card.EMAIL?.[0] || '',
+        unescape(card.NOTE?.[0] || '')
+      );
+      if (contact) contacts.push(contact);
+      card = null;
+    } else if (card) {
+      const cleanValue = key === 'TEL' ? value.replace(/^tel:/i, '') : value;
+      card[key] = [...(card[key] || []), cleanValue];
+      if (key === 'TEL' && params.some(param => /cell|mobile/i.test(param))) {
+        card.TEL_CELL = [...(card.TEL_CELL || []), cleanValue];
+      }
+    }
+  }
+
+  return contacts;
+};
+
+// Splits one CSV line, honoring quotes ("Silva, Maria")
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current);
+  return cells.map(cell => cell.trim());
+};
+
+const csvColumns = {
+  name: ['nome', 'name', 'cliente', 'display name', 'full name', 'nome completo'],
+  // Google Contacts exports the name split in parts, with no full name column
+  nameParts: [['first name'], ['middle name'], ['last name']],
+  phone: ['telefone', 'phone', 'celular', 'whatsapp', 'fone', 'phone 1 - value', 'mobile phone'],
+  email: ['email', 'e-mail', 'e-mail 1 - value', 'email 1 - value'],
+  notes: ['observacoes', 'observações', 'obs', 'notes', 'notas']
+};
+
+// CSV with a header row; "," or ";" (Brazilian Excel) as delimiter
+export const parseCsv = (text: string): ImportedContact[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) return [];
+
+  const delimiter = (lines[0].match(/;/g) || []).length > (lines[0].match(/,/g) || []).length ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(cell => cell.toLowerCase());
+  const columnIndex = (names: string[]) => header.findIndex(cell => names.includes(cell));
+
+  const nameIndex = columnIndex(csvColumns.name);
+  const namePartIndexes = csvColumns.nameParts.map(columnIndex);
+  const phoneIndex = columnIndex(csvColumns.phone);
+  const emailIndex = columnIndex(csvColumns.email);
+  const notesIndex = columnIndex(csvColumns.notes);
+
+  // Without a recognizable header, assume name, phone, email, notes
+  const hasHeader = nameIndex !== -1 || namePartIndexes[0] !== -1;
+  const rows = hasHeader ? lines.slice(1) : lines;
+  const indexes = hasHeader ? [nameIndex, phoneIndex, emailIndex, notesIndex] : [0, 1, 2, 3];
+
+  return rows
+    .map(line => {
+      const cells = splitCsvLine(line, delimiter);
+      const cell = (index: number) => (index >= 0 ? cells[index] || '' : '');
+      const name = cell(indexes[0]) || namePartIndexes.map(cell).filter(Boolean).join(' ');
+      return toContact(name, cell(indexes[1]), cell(indexes[2]), cell(indexes[3]));
+    })
+    .filter((contact): contact is ImportedContact => contact !== null);
+};
+
+export const parseContactFile = (fileName: string, text: string) => {
+  return /\.vcf$/i.test(fileName) || /^BEGIN:VCARD/im.test(text) ? parseVCard(text) : parseCsv(text);
+};
+
+// Matches each contact against the registered clients and the rows before it
+export const buildImportRows = (contacts: ImportedContact[], clients: Client[]): ImportRow[] => {
+  const seenNames = new Set<string>();
+
+  return contacts.map(contact => {
+    const lowerName = contact.name.toLowerCase();
+    const alreadyRegistered = seenNames.has(lowerName) || clients.some(client => client.name.toLowerCase() === lowerName);
+    seenNames.add(lowerName);
+
+    const possibleDuplicate = alreadyRegistered ? null : clients.find(client =>
+      isSimilarName(client.name, contact.name) || isSamePhone(client.phone, contact.phone)
+    ) ?? null;
+
+    return { ...contact, alreadyRegistered, possibleDuplicate };
+  });
+};
@@ -0,0 +1,38 @@
+import { Service } from './supabase';
+
+// Local calendar date as YYYY-MM-DD (toISOString would shift it to UTC)
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parses a DATE column value as local midnight
+export const parseDateKey = (dateKey: string) => new Date(dateKey + 'T00:00:00');
+
+export const formatDateKey = (dateKey: string, options?: Intl.DateTimeFormatOptions) => {
+  return parseDateKey(dateKey).toLocaleDateString('pt-BR', options);
+};
+
+export const addDays = (date: Date, days: number) => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) => {
+  return addDays(date, -((date.getDay() + 6) % 7));
+};
+
+export const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const isOverdue = (service: Service, todayKey: string) => {
+  return service.status === 'progress' && !!service.delivery_date && service.delivery_date < todayKey;
+};
+
+// Duration as "1h30" / "45min"
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}min`;
+  return rest > 0 ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+};
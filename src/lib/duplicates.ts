@@ -0,0 +1,93 @@
+import { Client } from './supabase';
+import { normalizePhone } from './phone';
+
+export interface DuplicateGroup {
+  clients: Client[];
+  reason: 'name' | 'phone';
+}
+
+// "  Ána  SILVA " -> "ana silva"
+export const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Same name ignoring accents/case, a typo or two, or one name extending the other ("Maria" / "Maria Silva")
+export const isSimilarName = (a: string, b: string) => {
+  const nameA = normalizeName(a);
+  const nameB = normalizeName(b);
+  if (!nameA || !nameB) return false;
+  if (nameA === nameB) return true;
+
+  const [shorter, longer] = nameA.length <= nameB.length ? [nameA, nameB] : [nameB, nameA];
+  if (longer.startsWith(`${shorter} `)) return true;
+
+  const maxTypos = longer.length >= 10 ? 2 : longer.length >= 5 ? 1 : 0;
+  return levenshtein(nameA, nameB) <= maxTypos;
+};
+
+// Compares the last 8 digits so "(11) 98765-4321" matches "98765-4321" and "8765-4321"
+export const isSamePhone = (a: string | null, b: string | null) => {
+  const digitsA = normalizePhone(a ?? '');
+  const digitsB = normalizePhone(b ?? '');
+  return digitsA.length >= 8 && digitsB.length >= 8 && digitsA.slice(-8) === digitsB.slice(-8);
+};
+
+// Groups clients that are probably the same person (connected by similar name or same phone)
+export const findDuplicateGroups = (clients: Client[]): DuplicateGroup[] => {
+  const parent = clients.map((_, index) => index);
+  const phoneMatches = new Set<number>();
+
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      const samePhone = isSamePhone(clients[i].phone, clients[j].phone);
+      if (!samePhone && !isSimilarName(clients[i].name, clients[j].name)) continue;
+
+      parent[find(j)] = find(i);
+      if (samePhone) phoneMatches.add(i).add(j);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  clients.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), index]);
+  });
+
+  return Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => ({
+      clients: members.map(index => clients[index]).sort((a, b) => b.total_spent - a.total_spent),
+      reason: members.some(index => phoneMatches.has(index)) ? 'phone' : 'name'
+    }));
+};
+
+// Existing client the typed name probably refers to, when it isn't an exact match
+export const findProbableDuplicate = (name: string, clients: Client[]) => {
+  const typed = name.trim().toLowerCase();
+  if (!typed || clients.some(client => client.name.toLowerCase() === typed)) return undefined;
+  return clients.find(client => isSimilarName(client.name, name));
+};
@@ -0,0 +1,31 @@
+import { Expense } from './supabase';
+
+export const expenseCategoryLabels: Record<Expense['category'], string> = {
+  linha: 'Linha',
+  aviamentos: 'Aviamentos',
+  tecido: 'Tecido',
+  manutencao: 'Manutenção',
+  energia: 'Energia',
+  outros: 'Outros'
+};
+
+// spent_at is a DATE column, so a day or month key matches by prefix
+export const sumExpenses = (expenses: Expense[], datePrefix: string) => {
+  return expenses
+    .filter(expense => expense.spent_at.startsWith(datePrefix))
+    .reduce((sum, expense) => sum + expense.amount, 0);
+};
+
+// Spending per category for the period, largest first
+export const getExpensesByCategory = (expenses: Expense[], datePrefix: string) => {
+  const totals = new Map<Expense['category'], number>();
+
+  expenses
+    .filter(expense => expense.spent_at.startsWith(datePrefix))
+    .forEach(expense => {
+      totals.set(expense.category, (totals.get(expense.category) || 0) + expense.amount);
+    });
+
+  return Array.from(totals, ([category, total]) => ({ category, total }))
+    .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,24 @@
+// Resizes an image so its longest side is at most maxSize and re-encodes it
+// as JPEG, so phone photos upload quickly on mobile connections
+export const compressImage = async (file: File, maxSize = 1600, quality = 0.8): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas not supported');
+
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Image compression failed'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
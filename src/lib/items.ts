@@ -0,0 +1,32 @@
+import { Service, ServiceItem } from './supabase';
+
+export const getItemsTotal = (items: Pick<ServiceItem, 'quantity' | 'unit_price'>[]) => {
+  return items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+};
+
+// Revenue grouped by item description (case and spacing insensitive).
+// Services without items count as a single item named after the service
+export const getRevenueByItemType = (services: Service[], items: ServiceItem[]) => {
+  const groups = new Map<string, { type: string; quantity: number; total: number }>();
+
+  const addToGroup = (description: string, quantity: number, total: number) => {
+    const key = description.trim().toLowerCase();
+    const group = groups.get(key) || { type: description.trim(), quantity: 0, total: 0 };
+    group.quantity += quantity;
+    group.total += total;
+    groups.set(key, group);
+  };
+
+  services.forEach(service => {
+    const serviceItems = items.filter(item => item.service_id === service.id);
+
+    if (serviceItems.length === 0) {
+      addToGroup(service.description, 1, service.value);
+      return;
+    }
+
+    serviceItems.forEach(item => addToGroup(item.description, item.quantity, item.quantity * item.unit_price));
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.total - a.total);
+};
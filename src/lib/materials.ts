@@ -0,0 +1,19 @@
+import { Material, ServiceMaterial } from './supabase';
+
+export const materialUnitOptions = ['un', 'm', 'cm', 'rolo', 'kg'];
+
+// Below (or at) the threshold counts as low; a zero threshold disables the warning
+export const isLowStock = (material: Material) => {
+  return material.low_stock_threshold > 0 && material.quantity <= material.low_stock_threshold;
+};
+
+export const getLowStockMaterials = (materials: Material[]) => materials.filter(isLowStock);
+
+export const getMaterialsCost = (materials: Pick<ServiceMaterial, 'quantity' | 'unit_cost'>[]) => {
+  return materials.reduce((sum, material) => sum + material.quantity * material.unit_cost, 0);
+};
+
+// Quantity without trailing zeros, e.g. "1,5 m" / "12 un"
+export const formatQuantity = (quantity: number, unit: string) => {
+  return `${Number(quantity.toFixed(2)).toLocaleString('pt-BR')} ${unit}`;
+};
@@ -0,0 +1,27 @@
+import { ClientMeasurement } from './supabase';
+
+export type MeasurementField = 'bust' | 'waist' | 'hip' | 'length' | 'sleeve';
+
+export const measurementFields: { key: MeasurementField; label: string }[] = [
+  { key: 'bust', label: 'Busto' },
+  { key: 'waist', label: 'Cintura' },
+  { key: 'hip', label: 'Quadril' },
+  { key: 'length', label: 'Comprimento' },
+  { key: 'sleeve', label: 'Manga' }
+];
+
+// Every filled-in measurement of a set, fixed fields first (values in cm)
+export const getMeasurementEntries = (measurement: ClientMeasurement) => {
+  const entries: { label: string; value: number }[] = [];
+
+  measurementFields.forEach(field => {
+    const value = measurement[field.key];
+    if (value !== null) entries.push({ label: field.label, value });
+  });
+
+  Object.entries(measurement.other_measurements || {}).forEach(([label, value]) => {
+    entries.push({ label, value });
+  });
+
+  return entries;
+};
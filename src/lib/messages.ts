@@ -0,0 +1,95 @@
+import { Client, Profile, Service, ServicePayment } from './supabase';
+import { getOutstandingBalance } from './payments';
+import { formatDateKey } from './dates';
+import { getWhatsAppUrl } from './phone';
+
+export type MessageTemplateKey =
+  | 'general'
+  | 'order_received'
+  | 'ready_for_pickup'
+  | 'payment_reminder'
+  | 'payment_received'
+  | 'birthday'
+  | 'reactivation';
+
+export const messageTemplateOptions: { key: MessageTemplateKey; label: string; defaultText: string }[] = [
+  {
+    key: 'general',
+    label: 'Contato',
+    defaultText: 'Olá {nome}! Tudo bem? Gostaria de falar sobre seu próximo serviço de costura.'
+  },
+  {
+    key: 'order_received',
+    label: 'Pedido recebido',
+    defaultText: 'Olá {nome}! Recebi seu pedido: {servico}, no valor de {valor}. A entrega está prevista para {data_entrega}.'
+  },
+  {
+    key: 'ready_for_pickup',
+    label: 'Pronto para retirada',
+    defaultText: 'Olá {nome}! Seu pedido ({servico}) está pronto para retirada. Saldo a pagar: {saldo}.'
+  },
+  {
+    key: 'payment_reminder',
+    label: 'Lembrete de pagamento',
+    defaultText: 'Olá {nome}! Passando para lembrar do saldo de {saldo} referente a {servico}. Obrigada!'
+  },
+  {
+    key: 'payment_received',
+    label: 'Pagamento recebido',
+    defaultText: 'Olá {nome}! Recebi o pagamento de {servico}. Muito obrigada pela preferência!'
+  },
+  {
+    key: 'birthday',
+    label: 'Aniversário',
+    defaultText: 'Feliz aniversário, {nome}! Desejo um dia lindo e muitas felicidades.'
+  },
+  {
+    key: 'reactivation',
+    label: 'Reativação',
+    defaultText: 'Olá {nome}! Tudo bem? Faz tempo que não nos vemos, estou com horários livres para seus próximos ajustes e costuras.'
+  }
+];
+
+export const messagePlaceholders = ['{nome}', '{servico}', '{valor}', '{saldo}', '{data_entrega}'];
+
+// Status a service just moved to -> message offered to the client
+export const statusTemplateKeys: Record<Service['status'], MessageTemplateKey> = {
+  progress: 'order_received',
+  delivered: 'ready_for_pickup',
+  paid: 'payment_received'
+};
+
+export interface MessageValues {
+  nome: string;
+  servico?: string;
+  valor?: string;
+  saldo?: string;
+  data_entrega?: string;
+}
+
+// Only customized templates are stored on the profile; the rest use the default text
+export const getMessageTemplate = (profile: Profile | null, key: MessageTemplateKey) => {
+  const custom = profile?.message_templates?.[key];
+  return custom?.trim() ? custom : messageTemplateOptions.find(option => option.key === key)!.defaultText;
+};
+
+// Replaces {placeholders}; known ones without a value become empty, unknown ones are kept
+export const fillTemplate = (template: string, values: MessageValues) => {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(name in values) && !messagePlaceholders.includes(match)) return match;
+    return values[name as keyof MessageValues] ?? '';
+  });
+};
+
+export const getServiceMessageValues = (service: Service, payments: ServicePayment[]): MessageValues => ({
+  nome: service.client_name,
+  servico: service.description,
+  valor: `R$ ${service.value.toFixed(2)}`,
+  saldo: `R$ ${getOutstandingBalance(service, payments).toFixed(2)}`,
+  data_entrega: service.delivery_date ? formatDateKey(service.delivery_date) : 'a combinar'
+});
+
+// WhatsApp link for messages that only need the client's name (contact, birthday, reactivation)
+export const getClientWhatsAppUrl = (profile: Profile | null, key: MessageTemplateKey, client: Client) => {
+  return getWhatsAppUrl(client.phone, fillTemplate(getMessageTemplate(profile, key), { nome: client.name }));
+};
@@ -0,0 +1,53 @@
+import { Service, ServicePayment } from './supabase';
+import { toDateKey } from './dates';
+
+export const paymentMethodLabels: Record<ServicePayment['method'], string> = {
+  dinheiro: 'Dinheiro',
+  pix: 'PIX',
+  cartao: 'Cartão'
+};
+
+// Sum of the payments registered for a service
+export const getPaidAmount = (service: Service, payments: ServicePayment[]) => {
+  return payments
+    .filter(payment => payment.service_id === service.id)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+};
+
+// Money received for a service. A service marked as 'paid' counts in full,
+// even when its payments were never registered (same rule as update_client_stats)
+export const getReceivedAmount = (service: Service, payments: ServicePayment[]) => {
+  const paid = getPaidAmount(service, payments);
+  return service.status === 'paid' ? Math.max(service.value, paid) : paid;
+};
+
+export const getOutstandingBalance = (service: Service, payments: ServicePayment[]) => {
+  return Math.max(0, service.value - getReceivedAmount(service, payments));
+};
+
+// Every amount received, dated by payment date. The unregistered remainder of
+// a 'paid' service is dated by the service creation, as before payments existed
+export const getReceipts = (services: Service[], payments: ServicePayment[]) => {
+  const receipts = payments.map(payment => ({
+    date: payment.paid_at,
+    amount: payment.amount
+  }));
+
+  services
+    .filter(service => service.status === 'paid')
+    .forEach(service => {
+      const remainder = service.value - getPaidAmount(service, payments);
+      if (remainder > 0) {
+        receipts.push({ date: toDateKey(new Date(service.created_at)), amount: remainder });
+      }
+    });
+
+  return receipts;
+};
+
+// Total received on dates starting with the given prefix (YYYY-MM-DD or YYYY-MM)
+export const sumReceipts = (receipts: { date: string; amount: number }[], datePrefix: string) => {
+  return receipts
+    .filter(receipt => receipt.date.startsWith(datePrefix))
+    .reduce((sum, receipt) => sum + receipt.amount, 0);
+};
@@ -0,0 +1,39 @@
+// Client phones are stored in E.164 (+5511987654321); forms work with the
+// Brazilian national digits: DDD + number
+export const normalizePhone = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  const national = value.trim().startsWith('+') && digits.startsWith('55') ? digits.slice(2) : digits;
+  return national.slice(0, 11);
+};
+
+// Landline (10 digits) or mobile (11 digits, starting with 9 after the DDD)
+export const isValidPhone = (digits: string) => {
+  if (!/^[1-9][1-9]\d{8,9}$/.test(digits)) return false;
+  return digits.length === 10 || digits[2] === '9';
+};
+
+// "(11) 98765-4321", "011 98765-4321" or "55 11 98765-4321" -> "+5511987654321",
+// or null when it isn't a valid Brazilian number
+export const toE164 = (value: string) => {
+  const digits = value.replace(/\D/g, '').replace(/^0/, '');
+  if (value.trim().startsWith('+') && !digits.startsWith('55')) return null;
+  const hasCountryCode = (value.trim().startsWith('+') || digits.length > 11) && digits.startsWith('55');
+  const national = hasCountryCode ? digits.slice(2) : digits;
+  return isValidPhone(national) ? `+55${national}` : null;
+};
+
+// Mask applied while typing: (11) 98765-4321 / (11) 3456-7890
+export const formatPhone = (value: string) => {
+  const digits = normalizePhone(value);
+  if (digits.length <= 2) return digits.length > 0 ? `(${digits}` : '';
+  const splitAt = digits.length === 11 ? 7 : 6;
+  if (digits.length <= splitAt) return `(${digits.slice(0, 2)}) ${digits.slice(2)}`;
+  return `(${digits.slice(0, 2)}) ${digits.slice(2, splitAt)}-${digits.slice(splitAt)}`;
+};
+
+// wa.me link with the message prefilled, or null when the phone can't receive it
+export const getWhatsAppUrl = (phone: string | null, message: string) => {
+  const e164 = phone ? toE164(phone) : null;
+  if (!e164) return null;
+  return `https://wa.me/${e164.slice(1)}?text=${encodeURIComponent(message)}`;
+};
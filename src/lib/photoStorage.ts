@@ -0,0 +1,67 @@
+import { supabase } from './supabase';
+
+// File storage used for service photos. The app talks to Supabase Storage,
+// tests and local development can swap in another implementation
+export interface PhotoStorage {
+  upload: (path: string, file: Blob) => Promise<void>;
+  remove: (paths: string[]) => Promise<void>;
+  getUrl: (path: string) => Promise<string>;
+}
+
+export const createSupabasePhotoStorage = (bucket = 'service-photos'): PhotoStorage => ({
+  upload: async (path, file) => {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(path, file, { contentType: file.type || 'image/jpeg' });
+
+    if (error) throw error;
+  },
+
+  remove: async (paths) => {
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from(bucket)
+      .remove(paths);
+
+    if (error) throw error;
+  },
+
+  // The bucket is private, so photos are served through signed URLs
+  getUrl: async (path) => {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(path, 60 * 60);
+
+    if (error) throw error;
+    return data.signedUrl;
+  }
+});
+
+export const createMemoryPhotoStorage = (): PhotoStorage => {
+  const files = new Map<string, Blob>();
+
+  return {
+    upload: async (path, file) => {
+      files.set(path, file);
+    },
+
+    remove: async (paths) => {
+      paths.forEach(path => files.delete(path));
+    },
+
+    getUrl: async (path) => {
+      const file = files.get(path);
+      if (!file) throw new Error(`Photo not found: ${path}`);
+      return URL.createObjectURL(file);
+    }
+  };
+};
+
+let photoStorage: PhotoStorage = createSupabasePhotoStorage();
+
+export const getPhotoStorage = () => photoStorage;
+
+export const setPhotoStorage = (storage: PhotoStorage) => {
+  photoStorage = storage;
+};
@@ -0,0 +1,26 @@
+import { PieceLot } from './supabase';
+
+// Usual size grid of the factories; a lot may use only some of them
+export const lotSizeOptions = ['PP', 'P', 'M', 'G', 'GG', 'XG'];
+
+export const sumSizes = (sizes: Record<string, number>) => {
+  return Object.values(sizes).reduce((sum, quantity) => sum + quantity, 0);
+};
+
+// "P 50 · M 100 · G 50", in grid order
+export const formatLotSizes = (sizes: Record<string, number>) => {
+  return Object.entries(sizes)
+    .filter(([, quantity]) => quantity > 0)
+    .sort(([a], [b]) => {
+      const indexA = lotSizeOptions.indexOf(a);
+      const indexB = lotSizeOptions.indexOf(b);
+      return (indexA === -1 ? lotSizeOptions.length : indexA) - (indexB === -1 ? lotSizeOptions.length : indexB);
+    })
+    .map(([size, quantity]) => `${size} ${quantity}`)
+    .join(' · ');
+};
+
+// Pieces returned with defects count as pending again until redelivered
+export const getLotPending = (lot: PieceLot) => lot.quantity - lot.delivered;
+
+export const getLotProgress = (lot: PieceLot) => Math.round((lot.delivered / lot.quantity) * 100);
@@ -0,0 +1,64 @@
+import { PieceCounterHistory, PieceRate } from './supabase';
+import { toDateKey } from './dates';
+
+// The client's own rate wins over the general one for the same piece type
+export const findPieceRate = (rates: PieceRate[], clientId: string | undefined, pieceType: string) => {
+  const type = pieceType.trim().toLowerCase();
+  if (!type) return undefined;
+
+  const matches = rates.filter(rate => rate.piece_type.toLowerCase() === type);
+  return matches.find(rate => rate.client_id === clientId) ?? matches.find(rate => rate.client_id === null);
+};
+
+// Piece types available for a client: their own plus the general ones
+export const getPieceTypes = (rates: PieceRate[], clientId: string | undefined) => {
+  const types = rates
+    .filter(rate => rate.client_id === null || rate.client_id === clientId)
+    .map(rate => rate.piece_type);
+  return Array.from(new Set(types)).sort((a, b) => a.localeCompare(b, 'pt-BR'));
+};
+
+// Entries without a rate (before rates existed) are worth nothing
+export const getEntryAmount = (entry: PieceCounterHistory) => entry.pieces_added * (entry.rate ?? 0);
+
+export const sumEntryAmounts = (entries: PieceCounterHistory[]) => {
+  return entries.reduce((sum, entry) => sum + getEntryAmount(entry), 0);
+};
+
+export interface StatementLine {
+  key: string;
+  pieces: number;
+  amount: number;
+}
+
+const groupEntries = (entries: PieceCounterHistory[], getKey: (entry: PieceCounterHistory) => string) => {
+  const groups = new Map<string, StatementLine>();
+
+  entries.forEach(entry => {
+    const key = getKey(entry);
+    const line = groups.get(key) || { key, pieces: 0, amount: 0 };
+    line.pieces += entry.pieces_added;
+    line.amount += getEntryAmount(entry);
+    groups.set(key, line);
+  });
+
+  return Array.from(groups.values());
+};
+
+// Pieces and money for a period (inclusive date keys), by day and by piece type
+export const getCounterStatement = (history: PieceCounterHistory[], from: string, to: string) => {
+  const entries = history.filter(entry => {
+    const dateKey = toDateKey(new Date(entry.created_at));
+    return dateKey >= from && dateKey <= to;
+  });
+
+  return {
+    entries,
+    totalPieces: entries.reduce((sum, entry) => sum + entry.pieces_added, 0),
+    totalAmount: sumEntryAmounts(entries),
+    byDay: groupEntries(entries, entry => toDateKey(new Date(entry.created_at)))
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    byType: groupEntries(entries, entry => entry.piece_type || 'Sem tipo')
+      .sort((a, b) => b.amount - a.amount)
+  };
+};
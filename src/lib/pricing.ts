@@ -0,0 +1,24 @@
+import { Profile } from './supabase';
+
+export type PricingSettings = Pick<Profile, 'hourly_rate' | 'margin_percent' | 'monthly_fixed_costs' | 'monthly_work_hours'>;
+
+// Fixed monthly costs spread over the hours expected to be worked in the month
+export const getFixedCostPerHour = (settings: PricingSettings) => {
+  return settings.monthly_work_hours > 0 ? settings.monthly_fixed_costs / settings.monthly_work_hours : 0;
+};
+
+// Suggested price: (hours x (hourly rate + fixed cost per hour) + materials) + margin
+export const getPriceSuggestion = (settings: PricingSettings, hours: number, materialCost: number) => {
+  const labor = hours * settings.hourly_rate;
+  const fixedCosts = hours * getFixedCostPerHour(settings);
+  const subtotal = labor + fixedCosts + materialCost;
+  const margin = subtotal * (settings.margin_percent / 100);
+
+  return {
+    labor,
+    fixedCosts,
+    materials: materialCost,
+    margin,
+    total: subtotal + margin
+  };
+};
@@ -0,0 +1,127 @@
+import { jsPDF } from 'jspdf';
+import { Profile, Service, ServiceItem, ServicePayment } from './supabase';
+import { getReceivedAmount, getOutstandingBalance, paymentMethodLabels } from './payments';
+import { formatDateKey } from './dates';
+
+// 'ticket' is handed over when the piece is dropped off, 'receipt' when it is paid
+export type ReceiptKind = 'ticket' | 'receipt';
+export type ReceiptFormat = 'a4' | 'thermal';
+
+export interface ReceiptData {
+  kind: ReceiptKind;
+  businessName: string;
+  businessPhone: string | null;
+  orderNumber: string;
+  issuedAt: string;
+  clientName: string;
+  lines: { description: string; quantity: number; total: number }[];
+  total: number;
+  received: number;
+  balance: number;
+  payments: { date: string; method: string; amount: number }[];
+  deliveryDate: string | null;
+}
+
+export const formatOrderNumber = (orderNumber: number) => `#${String(orderNumber).padStart(4, '0')}`;
+
+export const buildReceiptData = (
+  kind: ReceiptKind,
+  service: Service,
+  items: ServiceItem[],
+  payments: ServicePayment[],
+  profile: Profile | null
+): ReceiptData => ({
+  kind,
+  businessName: profile?.business_name || profile?.full_name || 'Costureira Pro',
+  businessPhone: profile?.phone || null,
+  orderNumber: formatOrderNumber(service.order_number),
+  issuedAt: new Date().toLocaleDateString('pt-BR'),
+  clientName: service.client_name,
+  lines: items.length > 0
+    ? items.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        total: item.quantity * item.unit_price
+      }))
+    : [{ description: service.description, quantity: 1, total: service.value }],
+  total: service.value,
+  received: getReceivedAmount(service, payments),
+  balance: getOutstandingBalance(service, payments),
+  payments: payments.map(payment => ({
+    date: formatDateKey(payment.paid_at),
+    method: paymentMethodLabels[payment.method],
+    amount: payment.amount
+  })),
+  deliveryDate: service.delivery_date ? formatDateKey(service.delivery_date) : null
+});
+
+export const getReceiptTitle = (kind: ReceiptKind) => (kind === 'ticket' ? 'Comprovante de Entrada' : 'Recibo');
+
+export const formatCurrency = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+// Text-only PDF mirroring the printable view. Thermal receipts are 80mm wide
+// with a height that grows with the content
+export const generateReceiptPdf = (data: ReceiptData, format: ReceiptFormat) => {
+  const isThermal = format === 'thermal';
+  const width = isThermal ? 80 : 210;
+  const margin = isThermal ? 5 : 20;
+  const lineHeight = isThermal ? 5 : 7;
+  const contentLines = 14 + data.lines.length + data.payments.length;
+  const height = isThermal ? margin * 2 + contentLines * lineHeight : 297;
+
+  const doc = new jsPDF({ unit: 'mm', format: isThermal ? [width, height] : 'a4' });
+  const right = width - margin;
+  let y = margin + lineHeight;
+
+  const writeRow = (left: string, value?: string, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    const wrapped = doc.splitTextToSize(left, value ? width - margin * 2 - 25 : width - margin * 2);
+    doc.text(wrapped, margin, y);
+    if (value) doc.text(value, right, y, { align: 'right' });
+    y += lineHeight * wrapped.length;
+  };
+
+  const writeSeparator = () => {
+    doc.setLineWidth(0.2);
+    doc.line(margin, y - lineHeight / 2, right, y - lineHeight / 2);
+    y += lineHeight / 2;
+  };
+
+  doc.setFontSize(isThermal ? 12 : 18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(data.businessName, width / 2, y, { align: 'center' });
+  y += lineHeight;
+
+  doc.setFontSize(isThermal ? 8 : 11);
+  if (data.businessPhone) {
+    doc.setFont('helvetica', 'normal');
+    doc.text(data.businessPhone, width / 2, y, { align: 'center' });
+    y += lineHeight;
+  }
+
+  writeSeparator();
+  writeRow(`${getReceiptTitle(data.kind)} ${data.orderNumber}`, data.issuedAt, true);
+  writeRow(`Cliente: ${data.clientName}`);
+  if (data.deliveryDate) writeRow(`Entrega prevista: ${data.deliveryDate}`);
+  writeSeparator();
+
+  data.lines.forEach(line => {
+    writeRow(line.quantity > 1 ? `${line.quantity}x ${line.description}` : line.description, formatCurrency(line.total));
+  });
+
+  writeSeparator();
+  writeRow('Total', formatCurrency(data.total), true);
+
+  data.payments.forEach(payment => {
+    writeRow(`Pago em ${payment.date} (${payment.method})`, formatCurrency(payment.amount));
+  });
+
+  writeRow('Recebido', formatCurrency(data.received));
+  writeRow('Saldo a pagar', formatCurrency(data.balance), true);
+
+  y += lineHeight;
+  doc.setFont('helvetica', 'normal');
+  doc.text('Obrigada pela preferência!', width / 2, y, { align: 'center' });
+
+  return doc.output('blob');
+};
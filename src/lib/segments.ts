@@ -0,0 +1,72 @@
+import { Client, Profile, Service } from './supabase';
+import { parseDateKey } from './dates';
+
+export type SegmentSettings = Pick<Profile, 'segment_at_risk_days' | 'segment_inactive_days' | 'segment_loyal_services' | 'segment_vip_spent'>;
+
+export type ClientSegment = 'vip' | 'loyal' | 'regular' | 'new' | 'at_risk' | 'inactive';
+
+// Same as the column defaults, used until the profile loads
+export const defaultSegmentSettings: SegmentSettings = {
+  segment_at_risk_days: 60,
+  segment_inactive_days: 180,
+  segment_loyal_services: 3,
+  segment_vip_spent: 500
+};
+
+export const segmentOptions: { value: ClientSegment; label: string; color: string }[] = [
+  { value: 'vip', label: 'VIP', color: 'bg-purple-500' },
+  { value: 'loyal', label: 'Fiel', color: 'bg-green-500' },
+  { value: 'regular', label: 'Regular', color: 'bg-blue-500' },
+  { value: 'new', label: 'Nova', color: 'bg-gray-500' },
+  { value: 'at_risk', label: 'Em risco', color: 'bg-orange-500' },
+  { value: 'inactive', label: 'Inativa', color: 'bg-red-500' }
+];
+
+export const getSegmentOption = (segment: ClientSegment) =>
+  segmentOptions.find(option => option.value === segment) ?? segmentOptions[0];
+
+export const getDaysSinceLastService = (client: Client, today = new Date()) => {
+  if (!client.last_service_date) return null;
+  return Math.floor((today.getTime() - parseDateKey(client.last_service_date).getTime()) / 86400000);
+};
+
+// Number of services per client id (frequency)
+export const countServicesByClient = (services: Service[]) => {
+  return services.reduce<Record<string, number>>((counts, service) => {
+    counts[service.client_id] = (counts[service.client_id] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+// Recency decides first (em risco / inativa); recent clients are ranked by value, then frequency
+export const getClientSegment = (
+  client: Client,
+  serviceCount: number,
+  settings: SegmentSettings,
+  today = new Date()
+): ClientSegment => {
+  const days = getDaysSinceLastService(client, today);
+
+  if (days !== null && days > settings.segment_inactive_days) return 'inactive';
+  if (days !== null && days > settings.segment_at_risk_days) return 'at_risk';
+  if (serviceCount >= settings.segment_loyal_services && client.total_spent >= settings.segment_vip_spent) return 'vip';
+  if (serviceCount >= settings.segment_loyal_services) return 'loyal';
+  if (serviceCount <= 1) return 'new';
+  return 'regular';
+};
+
+export const getClientSegments = (clients: Client[], services: Service[], settings: SegmentSettings) => {
+  const counts = countServicesByClient(services);
+  return clients.reduce<Record<string, ClientSegment>>((segments, client) => {
+    segments[client.id] = getClientSegment(client, counts[client.id] || 0, settings);
+    return segments;
+  }, {});
+};
+
+// At-risk clients worth a message, biggest spenders first
+export const getClientsToReactivate = (clients: Client[], services: Service[], settings: SegmentSettings) => {
+  const segments = getClientSegments(clients, services, settings);
+  return clients
+    .filter(client => segments[client.id] === 'at_risk')
+    .sort((a, b) => b.total_spent - a.total_spent);
+};
@@ -0,0 +1,11 @@
+import { Service } from './supabase';
+
+export const serviceStatusOptions: { value: Service['status']; label: string; color: string }[] = [
+  { value: 'progress', label: 'Em andamento', color: 'bg-gray-500' },
+  { value: 'delivered', label: 'Entregue', color: 'bg-blue-500' },
+  { value: 'paid', label: 'Pago', color: 'bg-green-500' }
+];
+
+export const getServiceStatusOption = (status: Service['status']) => {
+  return serviceStatusOptions.find(option => option.value === status) || serviceStatusOptions[0];
+};
@@ -15,6 +15,16 @@ export interface Profile {
   full_name: string | null;
   business_name: string | null;
   phone: string | null;
+  counter_quick_amounts: number[];
+  hourly_rate: number;
+  margin_percent: number;
+  monthly_fixed_costs: number;
+  monthly_work_hours: number;
+  segment_at_risk_days: number;
+  segment_inactive_days: number;
+  segment_loyal_services: number;
+  segment_vip_spent: number;
+  message_templates: Record<string, string>;
   created_at: string;
   updated_at: string;
 }
@@ -29,6 +39,8 @@ export interface Client {
   total_spent: number;
   last_service_date: string | null;
   notes: string | null;
+  address: string | null;
+  birthday: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -42,6 +54,10 @@ export interface Service {
   value: number;
   delivery_date: string | null;
   status: 'progress' | 'delivered' | 'paid';
+  order_number: number;
+  material_cost: number;
+  minutes_worked: number;
+  timer_finished_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -63,5 +79,167 @@ export interface PieceCounterHistory {
   client_name: string;
   pieces_added: number;
   description: string | null;
+  minutes_worked: number | null;
+  piece_type: string | null;
+  rate: number | null;
+  lot_id: string | null;
   created_at: string;
 }
+
+export interface ServicePayment {
+  id: string;
+  user_id: string;
+  service_id: string;
+  amount: number;
+  method: 'dinheiro' | 'pix' | 'cartao';
+  paid_at: string;
+  created_at: string;
+}
+
+export interface ServiceItem {
+  id: string;
+  user_id: string;
+  service_id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  position: number;
+  created_at: string;
+}
+
+export interface ClientMeasurement {
+  id: string;
+  user_id: string;
+  client_id: string;
+  measured_at: string;
+  bust: number | null;
+  waist: number | null;
+  hip: number | null;
+  length: number | null;
+  sleeve: number | null;
+  other_measurements: Record<string, number>;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface ServiceCatalogItem {
+  id: string;
+  user_id: string;
+  name: string;
+  default_price: number;
+  estimated_minutes: number | null;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ServicePhoto {
+  id: string;
+  user_id: string;
+  service_id: string;
+  storage_path: string;
+  kind: 'reference' | 'fabric' | 'before' | 'after';
+  caption: string | null;
+  created_at: string;
+}
+
+export interface Expense {
+  id: string;
+  user_id: string;
+  category: 'linha' | 'aviamentos' | 'tecido' | 'manutencao' | 'energia' | 'outros';
+  amount: number;
+  description: string | null;
+  spent_at: string;
+  service_id: string | null;
+  client_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Material {
+  id: string;
+  user_id: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  cost_per_unit: number;
+  low_stock_threshold: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ServiceMaterial {
+  id: string;
+  user_id: string;
+  service_id: string;
+  material_id: string;
+  quantity: number;
+  unit_cost: number;
+  created_at: string;
+}
+
+export interface WorkSession {
+  id: string;
+  user_id: string;
+  service_id: string | null;
+  counter_history_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+}
+
+export interface ClientContact {
+  id: string;
+  user_id: string;
+  client_id: string;
+  kind: 'reactivation' | 'birthday';
+  contacted_at: string;
+  created_at: string;
+}
+
+export interface PieceRate {
+  id: string;
+  user_id: string;
+  client_id: string | null;
+  piece_type: string;
+  rate: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PieceCounterHistoryAudit {
+  id: string;
+  user_id: string;
+  history_id: string;
+  counter_id: string | null;
+  action: 'update' | 'delete';
+  old_values: PieceCounterHistory;
+  new_values: PieceCounterHistory | null;
+  created_at: string;
+}
+
+// Row returned by the get_piece_counter_totals function
+export interface PieceCounterTotals {
+  counter_id: string;
+  client_name: string;
+  pieces_added: number;
+  pieces_removed: number;
+  amount: number;
+  entries: number;
+}
+
+export interface PieceLot {
+  id: string;
+  user_id: string;
+  counter_id: string;
+  code: string;
+  piece_type: string | null;
+  sizes: Record<string, number>;
+  quantity: number;
+  delivered: number;
+  defects: number;
+  status: 'open' | 'closed';
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
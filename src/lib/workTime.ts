@@ -0,0 +1,40 @@
+import { Service, PieceCounterHistory, WorkSession } from './supabase';
+
+export const getRunningSession = (sessions: WorkSession[]) => sessions.find(session => !session.ended_at);
+
+// Minutes across all sessions; the running one counts up to now
+export const getTrackedMinutes = (sessions: WorkSession[], now = Date.now()) => {
+  return sessions.reduce((sum, session) => {
+    const end = session.ended_at ? new Date(session.ended_at).getTime() : now;
+    return sum + (end - new Date(session.started_at).getTime()) / 60000;
+  }, 0);
+};
+
+export const getHourlyRate = (value: number, minutes: number) => {
+  return minutes > 0 ? value / (minutes / 60) : null;
+};
+
+export const getPiecesPerHour = (entry: PieceCounterHistory) => {
+  return entry.minutes_worked ? Math.abs(entry.pieces_added) / (entry.minutes_worked / 60) : null;
+};
+
+// Effective R$/hour grouped by client or by service description,
+// counting only services with tracked time
+export const getHourlyRateBy = (services: Service[], groupBy: 'client' | 'type') => {
+  const groups = new Map<string, { name: string; value: number; minutes: number }>();
+
+  services
+    .filter(service => service.minutes_worked > 0)
+    .forEach(service => {
+      const name = (groupBy === 'client' ? service.client_name : service.description).trim();
+      const key = name.toLowerCase();
+      const group = groups.get(key) || { name, value: 0, minutes: 0 };
+      group.value += service.value;
+      group.minutes += service.minutes_worked;
+      groups.set(key, group);
+    });
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, rate: group.value / (group.minutes / 60) }))
+    .sort((a, b) => b.rate - a.rate);
+};
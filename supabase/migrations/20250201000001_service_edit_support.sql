@@ -0,0 +1,89 @@
+/*
+# Edição de Serviços - Costureira Pro
+Ajusta as estatísticas do cliente para suportar edição, troca de status e exclusão de serviços
+
+## Query Description:
+Reescreve a função update_client_stats para recalcular tanto o cliente antigo quanto o novo
+quando um serviço muda de cliente, e adiciona atualização automática de updated_at em services.
+Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova função: recalculate_client_stats (recalcula total_spent e last_service_date, só para uso interno)
+- Função alterada: update_client_stats (trata INSERT, UPDATE e DELETE)
+- Novo trigger: update_services_updated_at
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Trigger de updated_at em services
+- Estimated Impact: Mínimo
+*/
+
+-- Função para recalcular as estatísticas de um cliente
+CREATE OR REPLACE FUNCTION recalculate_client_stats(p_client_id UUID)
+RETURNS void AS $$
+BEGIN
+    UPDATE clients
+    SET
+        total_spent = (
+            SELECT COALESCE(SUM(value), 0)
+            FROM services
+            WHERE client_id = p_client_id
+            AND status = 'paid'
+        ),
+        last_service_date = (
+            SELECT MAX(created_at::date)
+            FROM services
+            WHERE client_id = p_client_id
+        ),
+        updated_at = NOW()
+    WHERE id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Só os gatilhos (SECURITY DEFINER) chamam a função; pela API ela aceitaria qualquer cliente.
+-- CREATE OR REPLACE nas migrações seguintes mantém estas permissões
+REVOKE EXECUTE ON FUNCTION recalculate_client_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Recalcula o cliente antigo e o novo quando o serviço troca de cliente
+CREATE OR REPLACE FUNCTION update_client_stats()
+RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM recalculate_client_stats(OLD.client_id);
+        RETURN OLD;
+    END IF;
+
+    PERFORM recalculate_client_stats(NEW.client_id);
+
+    IF TG_OP = 'UPDATE' AND OLD.client_id IS DISTINCT FROM NEW.client_id THEN
+        PERFORM recalculate_client_stats(OLD.client_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Função para atualizar a coluna updated_at
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS trigger AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_services_updated_at ON services;
+CREATE TRIGGER update_services_updated_at
+    BEFORE UPDATE ON services
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,121 @@
+/*
+# Pagamentos Parciais - Costureira Pro
+Registro de pagamentos (sinal e restante) vinculados a cada serviço
+
+## Query Description:
+Cria a tabela service_payments para registrar cada valor recebido de um serviço, com forma de
+pagamento e data. As estatísticas do cliente passam a somar o dinheiro efetivamente recebido.
+Serviços já marcados como pagos continuam contando o valor integral. Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: service_payments (pagamentos por serviço)
+- Função alterada: recalculate_client_stats (total_spent = valor recebido)
+- Novo trigger: update_client_stats_on_payment_change
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionados em service_id, user_id e paid_at
+- Triggers: Recalcula estatísticas do cliente a cada pagamento
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de pagamentos
+CREATE TABLE IF NOT EXISTS service_payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    method TEXT NOT NULL CHECK (method IN ('dinheiro', 'pix', 'cartao')) DEFAULT 'dinheiro',
+    paid_at DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_service_payments_user_id ON service_payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_service_payments_service_id ON service_payments(service_id);
+CREATE INDEX IF NOT EXISTS idx_service_payments_paid_at ON service_payments(paid_at);
+
+-- Habilitar RLS
+ALTER TABLE service_payments ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para service_payments
+CREATE POLICY "Users can view own service payments" ON service_payments
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- O serviço também precisa ser da usuária, senão o gatilho alteraria a cliente de outra conta
+CREATE POLICY "Users can insert own service payments" ON service_payments
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can update own service payments" ON service_payments
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete own service payments" ON service_payments
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- total_spent passa a ser o valor recebido: soma dos pagamentos,
+-- ou o valor integral quando o serviço está marcado como pago
+CREATE OR REPLACE FUNCTION recalculate_client_stats(p_client_id UUID)
+RETURNS void AS $$
+BEGIN
+    UPDATE clients
+    SET
+        total_spent = (
+            SELECT COALESCE(SUM(
+                CASE
+                    WHEN s.status = 'paid' THEN GREATEST(s.value, COALESCE(p.paid, 0))
+                    ELSE COALESCE(p.paid, 0)
+                END
+            ), 0)
+            FROM services s
+            LEFT JOIN (
+                SELECT sp.service_id, SUM(sp.amount) AS paid
+                FROM service_payments sp
+                JOIN services ps ON ps.id = sp.service_id AND ps.user_id = sp.user_id
+                GROUP BY sp.service_id
+            ) p ON p.service_id = s.id
+            WHERE s.client_id = p_client_id
+        ),
+        last_service_date = (
+            SELECT MAX(created_at::date)
+            FROM services
+            WHERE client_id = p_client_id
+        ),
+        updated_at = NOW()
+    WHERE id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Função para recalcular o cliente quando um pagamento muda
+CREATE OR REPLACE FUNCTION update_client_stats_from_payment()
+RETURNS trigger AS $$
+BEGIN
+    PERFORM recalculate_client_stats(client_id)
+    FROM services
+    WHERE id = COALESCE(NEW.service_id, OLD.service_id)
+    AND user_id = COALESCE(NEW.user_id, OLD.user_id);
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_client_stats_on_payment_change ON service_payments;
+CREATE TRIGGER update_client_stats_on_payment_change
+    AFTER INSERT OR UPDATE OR DELETE ON service_payments
+    FOR EACH ROW EXECUTE FUNCTION update_client_stats_from_payment();
@@ -0,0 +1,96 @@
+/*
+# Itens do Serviço - Costureira Pro
+Permite registrar várias peças/ajustes dentro de um mesmo serviço
+
+## Query Description:
+Cria a tabela service_items com descrição, quantidade e preço unitário de cada item.
+Quando um serviço tem itens, o valor do serviço passa a ser a soma dos itens.
+Serviços sem itens continuam com o valor informado manualmente. Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: service_items (itens por serviço)
+- Nova função: update_service_value_from_items
+- Novo trigger: update_service_value_on_item_change
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionados em service_id e user_id
+- Triggers: Recalcula o valor do serviço a cada alteração de item
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de itens do serviço
+CREATE TABLE IF NOT EXISTS service_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    unit_price DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_service_items_user_id ON service_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_service_items_service_id ON service_items(service_id);
+
+-- Habilitar RLS
+ALTER TABLE service_items ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para service_items
+CREATE POLICY "Users can view own service items" ON service_items
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- O serviço também precisa ser da usuária, senão o gatilho alteraria o valor de outra conta
+CREATE POLICY "Users can insert own service items" ON service_items
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can update own service items" ON service_items
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete own service items" ON service_items
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- O valor do serviço é a soma dos itens (quando existirem itens)
+CREATE OR REPLACE FUNCTION update_service_value_from_items()
+RETURNS trigger AS $$
+DECLARE
+    v_service_id UUID := COALESCE(NEW.service_id, OLD.service_id);
+    v_user_id UUID := COALESCE(NEW.user_id, OLD.user_id);
+BEGIN
+    UPDATE services
+    SET value = (
+        SELECT SUM(quantity * unit_price)
+        FROM service_items
+        WHERE service_id = v_service_id
+    )
+    WHERE id = v_service_id
+    AND user_id = v_user_id
+    AND EXISTS (SELECT 1 FROM service_items WHERE service_id = v_service_id);
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_service_value_on_item_change ON service_items;
+CREATE TRIGGER update_service_value_on_item_change
+    AFTER INSERT OR UPDATE OR DELETE ON service_items
+    FOR EACH ROW EXECUTE FUNCTION update_service_value_from_items();
@@ -0,0 +1,64 @@
+/*
+# Medidas das Clientes - Costureira Pro
+Registro de medidas por cliente, com histórico por data
+
+## Query Description:
+Cria a tabela client_measurements. Cada linha é um conjunto de medidas tirado em uma data,
+com campos fixos (busto, cintura, quadril, comprimento, manga) e medidas extras nomeadas.
+Os conjuntos antigos são mantidos para acompanhar mudanças. Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: client_measurements (medidas por cliente e data)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionados em user_id e (client_id, measured_at)
+- Triggers: Nenhum
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de medidas
+CREATE TABLE IF NOT EXISTS client_measurements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    measured_at DATE NOT NULL DEFAULT CURRENT_DATE,
+    bust DECIMAL(5,1),
+    waist DECIMAL(5,1),
+    hip DECIMAL(5,1),
+    length DECIMAL(5,1),
+    sleeve DECIMAL(5,1),
+    other_measurements JSONB NOT NULL DEFAULT '{}'::jsonb, -- Medidas extras: {"ombro": 38}
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_client_measurements_user_id ON client_measurements(user_id);
+CREATE INDEX IF NOT EXISTS idx_client_measurements_client_date ON client_measurements(client_id, measured_at DESC);
+
+-- Habilitar RLS
+ALTER TABLE client_measurements ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para client_measurements
+CREATE POLICY "Users can view own client measurements" ON client_measurements
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own client measurements" ON client_measurements
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own client measurements" ON client_measurements
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own client measurements" ON client_measurements
+    FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,70 @@
+/*
+# Tabela de Preços - Costureira Pro
+Catálogo de tipos de serviço por usuária, com preço padrão e tempo estimado
+
+## Query Description:
+Cria a tabela service_catalog, que substitui as sugestões fixas do formulário de serviço,
+e adiciona em profiles os atalhos de quantidade do contador de peças.
+Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: service_catalog (nome, preço padrão, tempo estimado)
+- Nova coluna: profiles.counter_quick_amounts (atalhos do contador)
+- Novo trigger: update_service_catalog_updated_at
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionado em user_id
+- Triggers: Trigger de updated_at em service_catalog
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de preços
+CREATE TABLE IF NOT EXISTS service_catalog (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    default_price DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (default_price >= 0),
+    estimated_minutes INTEGER CHECK (estimated_minutes > 0),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Atalhos de quantidade do contador de peças
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS counter_quick_amounts INTEGER[] NOT NULL DEFAULT '{5,10,15,20}';
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_service_catalog_user_id ON service_catalog(user_id, position);
+
+-- Habilitar RLS
+ALTER TABLE service_catalog ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para service_catalog
+CREATE POLICY "Users can view own service catalog" ON service_catalog
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own service catalog" ON service_catalog
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own service catalog" ON service_catalog
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own service catalog" ON service_catalog
+    FOR DELETE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_service_catalog_updated_at ON service_catalog;
+CREATE TRIGGER update_service_catalog_updated_at
+    BEFORE UPDATE ON service_catalog
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,76 @@
+/*
+# Fotos dos Serviços - Costureira Pro
+Fotos de referência, tecido, antes e depois vinculadas a cada serviço
+
+## Query Description:
+Cria o bucket privado service-photos no Supabase Storage e a tabela service_photos com o
+caminho de cada arquivo. Cada usuária só acessa os arquivos da própria pasta ({user_id}/...).
+Os registros são apagados junto com o serviço; os arquivos são removidos pelo app.
+Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Novo bucket: service-photos (privado)
+- Nova tabela: service_photos (foto por serviço, com tipo e legenda)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes (tabela e storage.objects)
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionados em user_id e service_id
+- Triggers: Nenhum
+- Estimated Impact: Mínimo
+*/
+
+-- Bucket privado para as fotos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('service-photos', 'service-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Tabela de fotos
+CREATE TABLE IF NOT EXISTS service_photos (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('reference', 'fabric', 'before', 'after')) DEFAULT 'reference',
+    caption TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_service_photos_user_id ON service_photos(user_id);
+CREATE INDEX IF NOT EXISTS idx_service_photos_service_id ON service_photos(service_id);
+
+-- Habilitar RLS
+ALTER TABLE service_photos ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para service_photos
+CREATE POLICY "Users can view own service photos" ON service_photos
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own service photos" ON service_photos
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own service photos" ON service_photos
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own service photos" ON service_photos
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Políticas do storage: cada usuária acessa apenas a própria pasta
+CREATE POLICY "Users can view own service photo files" ON storage.objects
+    FOR SELECT USING (bucket_id = 'service-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload own service photo files" ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'service-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete own service photo files" ON storage.objects
+    FOR DELETE USING (bucket_id = 'service-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,64 @@
+/*
+# Número do Pedido - Costureira Pro
+Numeração sequencial dos serviços por usuária, usada no comprovante e no recibo
+
+## Query Description:
+Adiciona services.order_number, preenche os serviços existentes em ordem de criação e
+cria um trigger que atribui o próximo número a cada novo serviço. A numeração é
+independente para cada usuária.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova coluna: services.order_number
+- Nova função: assign_service_order_number
+- Novo trigger: assign_service_order_number_trigger
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Índice único em (user_id, order_number)
+- Triggers: Trigger BEFORE INSERT em services
+- Estimated Impact: Mínimo
+*/
+
+ALTER TABLE services ADD COLUMN IF NOT EXISTS order_number INTEGER;
+
+-- Numerar os serviços existentes em ordem de criação
+UPDATE services s
+SET order_number = numbered.row_number
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY created_at, id) AS row_number
+    FROM services
+) numbered
+WHERE s.id = numbered.id
+AND s.order_number IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_services_user_order_number ON services(user_id, order_number);
+
+-- Atribui o próximo número da usuária (lock evita números repetidos em inserts simultâneos)
+CREATE OR REPLACE FUNCTION assign_service_order_number()
+RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text));
+
+    SELECT COALESCE(MAX(order_number), 0) + 1
+    INTO NEW.order_number
+    FROM services
+    WHERE user_id = NEW.user_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS assign_service_order_number_trigger ON services;
+CREATE TRIGGER assign_service_order_number_trigger
+    BEFORE INSERT ON services
+    FOR EACH ROW EXECUTE FUNCTION assign_service_order_number();
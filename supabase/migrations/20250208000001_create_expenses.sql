@@ -0,0 +1,66 @@
+/*
+# Despesas - Costureira Pro
+Registro de gastos (linha, aviamentos, tecido, manutenção, energia) para calcular o lucro real
+
+## Query Description:
+Cria a tabela expenses com categoria, valor, data e vínculo opcional com um serviço ou cliente.
+Ao excluir o serviço ou cliente vinculado, a despesa é mantida sem o vínculo.
+Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: expenses (despesas da usuária)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionados em user_id e spent_at
+- Triggers: Atualização automática de updated_at
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de despesas
+CREATE TABLE IF NOT EXISTS expenses (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    category TEXT NOT NULL CHECK (category IN ('linha', 'aviamentos', 'tecido', 'manutencao', 'energia', 'outros')) DEFAULT 'outros',
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    description TEXT,
+    spent_at DATE NOT NULL DEFAULT CURRENT_DATE,
+    service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_expenses_user_id ON expenses(user_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_spent_at ON expenses(spent_at);
+
+-- Habilitar RLS
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para expenses
+CREATE POLICY "Users can view own expenses" ON expenses
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own expenses" ON expenses
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own expenses" ON expenses
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own expenses" ON expenses
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Trigger de updated_at
+CREATE TRIGGER update_expenses_updated_at BEFORE UPDATE ON expenses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,144 @@
+/*
+# Estoque de Materiais - Costureira Pro
+Controle de tecidos, elásticos, zíperes e outros materiais, com baixa automática por serviço
+
+## Query Description:
+Cria a tabela materials (estoque com unidade, quantidade, custo por unidade e estoque mínimo)
+e a tabela service_materials (materiais usados em cada serviço). Registrar um consumo dá baixa
+no estoque; remover o consumo (ou excluir o serviço) devolve a quantidade ao estoque.
+O custo de material do serviço fica em services.material_cost. Um material já usado em serviços
+não pode ser excluído, para preservar o custo dos serviços antigos. Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: materials (estoque)
+- Nova tabela: service_materials (consumo por serviço, com custo unitário do momento)
+- Nova coluna: services.material_cost
+- Novo trigger: apply_service_material_change
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionados em user_id, service_id e material_id
+- Triggers: Atualiza estoque e custo do serviço a cada consumo
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de materiais
+CREATE TABLE IF NOT EXISTS materials (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    unit TEXT NOT NULL DEFAULT 'un',
+    quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+    cost_per_unit DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (cost_per_unit >= 0),
+    low_stock_threshold DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (low_stock_threshold >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tabela de consumo de materiais por serviço
+CREATE TABLE IF NOT EXISTS service_materials (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    -- Sem cascata: excluir um material em uso apagaria o custo histórico dos serviços.
+    -- NO ACTION (e não RESTRICT) para que a exclusão da conta, que remove as duas tabelas, funcione
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE NO ACTION,
+    quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+    unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE services ADD COLUMN IF NOT EXISTS material_cost DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_materials_user_id ON materials(user_id);
+CREATE INDEX IF NOT EXISTS idx_service_materials_user_id ON service_materials(user_id);
+CREATE INDEX IF NOT EXISTS idx_service_materials_service_id ON service_materials(service_id);
+CREATE INDEX IF NOT EXISTS idx_service_materials_material_id ON service_materials(material_id);
+
+-- Habilitar RLS
+ALTER TABLE materials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_materials ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para materials
+CREATE POLICY "Users can view own materials" ON materials
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own materials" ON materials
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own materials" ON materials
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own materials" ON materials
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Políticas RLS para service_materials
+CREATE POLICY "Users can view own service materials" ON service_materials
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Serviço e material também precisam ser da usuária, senão o gatilho alteraria outra conta
+CREATE POLICY "Users can insert own service materials" ON service_materials
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM materials m WHERE m.id = material_id AND m.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can update own service materials" ON service_materials
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM materials m WHERE m.id = material_id AND m.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete own service materials" ON service_materials
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Trigger de updated_at
+CREATE TRIGGER update_materials_updated_at BEFORE UPDATE ON materials
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Baixa/devolução no estoque e custo de material do serviço
+CREATE OR REPLACE FUNCTION apply_service_material_change()
+RETURNS trigger AS $$
+DECLARE
+    v_user_id UUID := COALESCE(NEW.user_id, OLD.user_id);
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE materials SET quantity = quantity + OLD.quantity
+        WHERE id = OLD.material_id AND user_id = v_user_id;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE materials SET quantity = quantity - NEW.quantity
+        WHERE id = NEW.material_id AND user_id = v_user_id;
+    END IF;
+
+    UPDATE services
+    SET material_cost = (
+        SELECT COALESCE(SUM(quantity * unit_cost), 0)
+        FROM service_materials
+        WHERE service_id = COALESCE(NEW.service_id, OLD.service_id)
+    )
+    WHERE id = COALESCE(NEW.service_id, OLD.service_id) AND user_id = v_user_id;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_service_material_change_trigger ON service_materials;
+CREATE TRIGGER apply_service_material_change_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON service_materials
+    FOR EACH ROW EXECUTE FUNCTION apply_service_material_change();
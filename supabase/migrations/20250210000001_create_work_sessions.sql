@@ -0,0 +1,107 @@
+/*
+# Cronômetro de Trabalho - Costureira Pro
+Registro do tempo trabalhado em cada serviço e na produção do contador de peças
+
+## Query Description:
+Cria a tabela work_sessions: cada vez que o cronômetro é iniciado abre-se uma sessão, que é
+fechada ao pausar. Sessões com service_id contam para o serviço (services.minutes_worked);
+sessões sem serviço são do contador de peças e são vinculadas ao lançamento de peças
+(piece_counter_history.minutes_worked). Só pode haver uma sessão aberta por usuária.
+Ao finalizar o cronômetro de um serviço, services.timer_finished_at marca o tempo como fechado.
+Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: work_sessions (sessões do cronômetro)
+- Nova coluna: services.minutes_worked
+- Nova coluna: services.timer_finished_at
+- Nova coluna: piece_counter_history.minutes_worked
+- Novo trigger: update_service_minutes_on_session_change
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Adicionados em user_id e service_id, índice único da sessão aberta
+- Triggers: Recalcula o tempo do serviço a cada sessão
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de sessões de trabalho
+CREATE TABLE IF NOT EXISTS work_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    service_id UUID REFERENCES services(id) ON DELETE CASCADE,
+    counter_history_id UUID REFERENCES piece_counter_history(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMP WITH TIME ZONE CHECK (ended_at >= started_at),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE services ADD COLUMN IF NOT EXISTS minutes_worked INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE services ADD COLUMN IF NOT EXISTS timer_finished_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE piece_counter_history ADD COLUMN IF NOT EXISTS minutes_worked INTEGER;
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_work_sessions_user_id ON work_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_work_sessions_service_id ON work_sessions(service_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_sessions_one_open ON work_sessions(user_id) WHERE ended_at IS NULL;
+
+-- Habilitar RLS
+ALTER TABLE work_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para work_sessions
+CREATE POLICY "Users can view own work sessions" ON work_sessions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- O serviço também precisa ser da usuária, senão o gatilho alteraria o tempo de outra conta
+CREATE POLICY "Users can insert own work sessions" ON work_sessions
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND (service_id IS NULL OR EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid()))
+    );
+
+CREATE POLICY "Users can update own work sessions" ON work_sessions
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (service_id IS NULL OR EXISTS (SELECT 1 FROM services s WHERE s.id = service_id AND s.user_id = auth.uid()))
+    );
+
+CREATE POLICY "Users can delete own work sessions" ON work_sessions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Tempo do serviço = soma das sessões encerradas
+CREATE OR REPLACE FUNCTION update_service_minutes_from_sessions()
+RETURNS trigger AS $$
+DECLARE
+    v_service_id UUID := COALESCE(NEW.service_id, OLD.service_id);
+    v_user_id UUID := COALESCE(NEW.user_id, OLD.user_id);
+BEGIN
+    IF v_service_id IS NOT NULL THEN
+        UPDATE services
+        SET minutes_worked = (
+            SELECT COALESCE(ROUND(SUM(EXTRACT(EPOCH FROM ended_at - started_at)) / 60), 0)
+            FROM work_sessions
+            WHERE service_id = v_service_id
+            AND user_id = v_user_id
+            AND ended_at IS NOT NULL
+        )
+        WHERE id = v_service_id AND user_id = v_user_id;
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_service_minutes_on_session_change ON work_sessions;
+CREATE TRIGGER update_service_minutes_on_session_change
+    AFTER INSERT OR UPDATE OR DELETE ON work_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_service_minutes_from_sessions();
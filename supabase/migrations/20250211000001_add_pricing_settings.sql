@@ -0,0 +1,36 @@
+/*
+# Configurações de Preço - Costureira Pro
+Parâmetros da calculadora de preço do formulário de serviço
+
+## Query Description:
+Adiciona em profiles o valor da hora, a margem de lucro, os custos fixos mensais
+(aluguel, energia, internet...) e as horas de trabalho esperadas no mês. O preço sugerido é:
+horas estimadas x (valor da hora + custos fixos / horas do mês) + materiais, mais a margem.
+Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Novas colunas: profiles.hourly_rate, profiles.margin_percent,
+  profiles.monthly_fixed_costs, profiles.monthly_work_hours
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Nenhum
+- Estimated Impact: Mínimo
+*/
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS hourly_rate DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (hourly_rate >= 0),
+    ADD COLUMN IF NOT EXISTS margin_percent DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (margin_percent >= 0),
+    ADD COLUMN IF NOT EXISTS monthly_fixed_costs DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (monthly_fixed_costs >= 0),
+    ADD COLUMN IF NOT EXISTS monthly_work_hours INTEGER NOT NULL DEFAULT 160 CHECK (monthly_work_hours > 0);
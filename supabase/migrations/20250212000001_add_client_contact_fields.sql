@@ -0,0 +1,93 @@
+/*
+# Cadastro de Clientes - Costureira Pro
+Campos de contato completos para o formulário de clientes
+
+## Query Description:
+Adiciona endereço e data de aniversário em clients. Telefone, e-mail e observações já
+existiam, mas só agora podem ser preenchidos pelo app. Não altera dados existentes.
+Cria update_client, que salva a edição da cliente e, numa mesma transação, leva o novo
+nome para as cópias em services, piece_counters e piece_counter_history.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Novas colunas: clients.address, clients.birthday
+- Nova função: update_client
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado (update_client usa auth.uid() e confere o dono da cliente)
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Nenhum
+- Estimated Impact: Mínimo
+*/
+
+ALTER TABLE clients
+    ADD COLUMN IF NOT EXISTS address TEXT,
+    ADD COLUMN IF NOT EXISTS birthday DATE;
+
+-- Editar cliente: serviços, contadores e lançamentos guardam uma cópia do nome
+CREATE OR REPLACE FUNCTION update_client(
+    p_client_id UUID,
+    p_name TEXT,
+    p_phone TEXT DEFAULT NULL,
+    p_email TEXT DEFAULT NULL,
+    p_address TEXT DEFAULT NULL,
+    p_birthday DATE DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_name TEXT := TRIM(p_name);
+    v_client clients%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    IF v_name IS NULL OR v_name = '' THEN
+        RAISE EXCEPTION 'Client name is required';
+    END IF;
+
+    UPDATE clients
+    SET
+        name = v_name,
+        phone = p_phone,
+        email = p_email,
+        address = p_address,
+        birthday = p_birthday,
+        notes = p_notes
+    WHERE id = p_client_id AND user_id = v_user_id
+    RETURNING * INTO v_client;
+
+    IF v_client.id IS NULL THEN
+        RAISE EXCEPTION 'Client not found';
+    END IF;
+
+    UPDATE services
+    SET client_name = v_name
+    WHERE client_id = v_client.id AND user_id = v_user_id AND client_name IS DISTINCT FROM v_name;
+
+    UPDATE piece_counter_history h
+    SET client_name = v_name
+    FROM piece_counters c
+    WHERE h.counter_id = c.id
+    AND c.client_id = v_client.id
+    AND c.user_id = v_user_id
+    AND h.client_name IS DISTINCT FROM v_name;
+
+    UPDATE piece_counters
+    SET client_name = v_name
+    WHERE client_id = v_client.id AND user_id = v_user_id AND client_name IS DISTINCT FROM v_name;
+
+    RETURN to_jsonb(v_client);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,148 @@
+/*
+# Mesclar Clientes Duplicadas - Costureira Pro
+Junta duas fichas da mesma cliente ("Maria", "maria " e "Maria Silva") em uma só
+
+## Query Description:
+Cria a função merge_clients, que move serviços, contador de peças (com o histórico),
+medidas, despesas e tudo o mais que aponta para a cliente duplicada para a cliente
+escolhida, completa os dados de contato que estiverem vazios, exclui a ficha duplicada e
+recalcula as estatísticas. Quando as duas têm contador, os lançamentos são unidos em um
+único contador.
+As ligações são encontradas pelas chaves estrangeiras (move_references), então tabelas
+ligadas a clients ou a piece_counters criadas depois entram na mesclagem sem redefinir a
+função. Se a cliente mantida já tiver uma linha equivalente (índice único), fica a dela.
+
+## Metadata:
+- Schema-Category: "Data"
+- Impact-Level: "Medium"
+- Requires-Backup: false
+- Reversible: false
+
+## Structure Details:
+- Nova função: merge_clients(p_target_id, p_source_id)
+- Nova função: move_references (só para uso interno)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado, dona das duas clientes
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Nenhum novo
+- Estimated Impact: Mínimo
+*/
+
+-- Passa para p_to todas as linhas que apontam para p_from por uma chave estrangeira de uma
+-- coluna para p_table. Quando a linha já existe para p_to (índice único), fica a de p_to
+CREATE OR REPLACE FUNCTION move_references(p_table REGCLASS, p_from UUID, p_to UUID)
+RETURNS void AS $$
+DECLARE
+    v_link RECORD;
+    v_row RECORD;
+BEGIN
+    FOR v_link IN
+        SELECT c.conrelid::regclass AS table_name, a.attname AS column_name
+        FROM pg_constraint c
+        JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+        WHERE c.contype = 'f'
+        AND c.confrelid = p_table
+        AND array_length(c.conkey, 1) = 1
+    LOOP
+        BEGIN
+            EXECUTE format('UPDATE %s SET %I = $1 WHERE %I = $2', v_link.table_name, v_link.column_name, v_link.column_name)
+            USING p_to, p_from;
+        EXCEPTION WHEN unique_violation THEN
+            -- Linha a linha, descartando as que repetiriam uma linha de p_to
+            FOR v_row IN EXECUTE format('SELECT ctid FROM %s WHERE %I = $1', v_link.table_name, v_link.column_name)
+                USING p_from
+            LOOP
+                BEGIN
+                    EXECUTE format('UPDATE %s SET %I = $1 WHERE ctid = $2', v_link.table_name, v_link.column_name)
+                    USING p_to, v_row.ctid;
+                EXCEPTION WHEN unique_violation THEN
+                    EXECUTE format('DELETE FROM %s WHERE ctid = $1', v_link.table_name) USING v_row.ctid;
+                END;
+            END LOOP;
+        END;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Só merge_clients (SECURITY DEFINER) chama a função; pela API ela moveria dados de qualquer conta
+REVOKE EXECUTE ON FUNCTION move_references(REGCLASS, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION merge_clients(p_target_id UUID, p_source_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_target clients%ROWTYPE;
+    v_source clients%ROWTYPE;
+    v_target_counter piece_counters%ROWTYPE;
+    v_source_counter piece_counters%ROWTYPE;
+BEGIN
+    IF p_target_id = p_source_id THEN
+        RAISE EXCEPTION 'Cannot merge a client into itself';
+    END IF;
+
+    SELECT * INTO v_target FROM clients WHERE id = p_target_id AND user_id = auth.uid();
+    SELECT * INTO v_source FROM clients WHERE id = p_source_id AND user_id = auth.uid();
+
+    IF v_target.id IS NULL OR v_source.id IS NULL THEN
+        RAISE EXCEPTION 'Client not found';
+    END IF;
+
+    -- Serviços (guardam uma cópia do nome)
+    UPDATE services
+    SET client_id = v_target.id, client_name = v_target.name
+    WHERE client_id = v_source.id;
+
+    -- Contador de peças: só pode haver um por cliente
+    SELECT * INTO v_source_counter FROM piece_counters WHERE client_id = v_source.id;
+    SELECT * INTO v_target_counter FROM piece_counters WHERE client_id = v_target.id;
+
+    IF v_source_counter.id IS NOT NULL THEN
+        IF v_target_counter.id IS NULL THEN
+            UPDATE piece_counters
+            SET client_id = v_target.id, client_name = v_target.name, updated_at = NOW()
+            WHERE id = v_source_counter.id;
+
+            v_target_counter := v_source_counter;
+        ELSE
+            -- Lançamentos e o que mais pertencer ao contador duplicado
+            PERFORM move_references('piece_counters', v_source_counter.id, v_target_counter.id);
+
+            UPDATE piece_counters
+            SET total_pieces = total_pieces + v_source_counter.total_pieces, updated_at = NOW()
+            WHERE id = v_target_counter.id;
+
+            DELETE FROM piece_counters WHERE id = v_source_counter.id;
+        END IF;
+
+        UPDATE piece_counter_history
+        SET client_name = v_target.name
+        WHERE counter_id = v_target_counter.id;
+    END IF;
+
+    -- Medidas, despesas e qualquer outra tabela ligada à cliente
+    PERFORM move_references('clients', v_source.id, v_target.id);
+
+    -- Completar dados de contato vazios
+    UPDATE clients
+    SET
+        phone = COALESCE(phone, v_source.phone),
+        email = COALESCE(email, v_source.email),
+        address = COALESCE(address, v_source.address),
+        birthday = COALESCE(birthday, v_source.birthday),
+        notes = CASE
+            WHEN notes IS NULL THEN v_source.notes
+            WHEN v_source.notes IS NULL THEN notes
+            ELSE notes || E'\n' || v_source.notes
+        END,
+        is_favorite = is_favorite OR COALESCE(v_source.is_favorite, FALSE)
+    WHERE id = v_target.id;
+
+    DELETE FROM clients WHERE id = v_source.id;
+
+    PERFORM recalculate_client_stats(v_target.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
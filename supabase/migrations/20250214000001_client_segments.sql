@@ -0,0 +1,37 @@
+/*
+# Segmentação de Clientes - Costureira Pro
+Regras da segmentação RFM (recência, frequência e valor) da lista de clientes
+
+## Query Description:
+Adiciona em profiles os limites usados para classificar as clientes em VIP, Fiel,
+Regular, Nova, Em risco e Inativa: dias sem serviço para "em risco" e para "inativa",
+número de serviços para "fiel" e valor gasto para "VIP". Os segmentos são calculados
+no app a partir dos serviços, então não há colunas novas em clients.
+Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Novas colunas: profiles.segment_at_risk_days, profiles.segment_inactive_days,
+  profiles.segment_loyal_services, profiles.segment_vip_spent
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Nenhum
+- Estimated Impact: Mínimo
+*/
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS segment_at_risk_days INTEGER NOT NULL DEFAULT 60 CHECK (segment_at_risk_days > 0),
+    ADD COLUMN IF NOT EXISTS segment_inactive_days INTEGER NOT NULL DEFAULT 180 CHECK (segment_inactive_days > 0),
+    ADD COLUMN IF NOT EXISTS segment_loyal_services INTEGER NOT NULL DEFAULT 3 CHECK (segment_loyal_services > 0),
+    ADD COLUMN IF NOT EXISTS segment_vip_spent DECIMAL(10,2) NOT NULL DEFAULT 500 CHECK (segment_vip_spent >= 0);
@@ -0,0 +1,74 @@
+/*
+# Mensagens de WhatsApp - Costureira Pro
+Modelos de mensagem editáveis e telefones no formato internacional (E.164)
+
+## Query Description:
+Adiciona em profiles os modelos de mensagem personalizados (pedido recebido, pronto para
+retirada, lembrete de pagamento, aniversário...). Só os modelos alterados ficam salvos;
+os demais usam o texto padrão do app.
+Converte os telefones das clientes de "DDD + número" para E.164 (+5511987654321),
+com a mesma regra do app (0 da operadora ignorado, celular com 9 depois do DDD).
+Números que não puderem ser convertidos são movidos para as observações da cliente
+e o campo fica vazio, para que a nova validação não bloqueie a edição da ficha.
+
+## Metadata:
+- Schema-Category: "Data"
+- Impact-Level: "Medium"
+- Requires-Backup: true
+- Reversible: false
+
+## Structure Details:
+- Nova coluna: profiles.message_templates (JSONB)
+- Dados alterados: clients.phone (E.164)
+- Nova restrição: clients_phone_e164_check
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Nenhum
+- Estimated Impact: Atualiza uma vez todas as clientes com telefone
+*/
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS message_templates JSONB NOT NULL DEFAULT '{}';
+
+-- Telefone em branco é o mesmo que sem telefone
+UPDATE clients SET phone = NULL WHERE TRIM(phone) = '';
+
+-- Mesma regra de toE164 (src/lib/phone.ts): tira o 0 da operadora e o 55 do código do
+-- país, e aceita fixo (DDD + 8 dígitos) ou celular (DDD + 9 + 8 dígitos)
+WITH normalized AS (
+    SELECT
+        id,
+        CASE
+            WHEN TRIM(phone) LIKE '+%' AND digits NOT LIKE '55%' THEN NULL
+            WHEN (TRIM(phone) LIKE '+%' OR LENGTH(digits) > 11) AND digits LIKE '55%' THEN SUBSTRING(digits FROM 3)
+            ELSE digits
+        END AS national
+    FROM (
+        SELECT id, phone, regexp_replace(regexp_replace(phone, '\D', '', 'g'), '^0', '') AS digits
+        FROM clients
+        WHERE phone IS NOT NULL
+    ) c
+)
+UPDATE clients
+SET phone = '+55' || n.national
+FROM normalized n
+WHERE clients.id = n.id
+  AND n.national ~ '^[1-9]{2}(9[0-9]{8}|[0-9]{8})$';
+
+-- O que sobrou não é um telefone válido: guarda nas observações
+UPDATE clients
+SET
+    notes = COALESCE(notes || E'\n', '') || 'Telefone: ' || phone,
+    phone = NULL
+WHERE phone IS NOT NULL
+  AND phone !~ '^\+55[1-9]{2}(9[0-9]{8}|[0-9]{8})$';
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_phone_e164_check;
+ALTER TABLE clients
+    ADD CONSTRAINT clients_phone_e164_check CHECK (phone IS NULL OR phone ~ '^\+[1-9][0-9]{7,14}$');
@@ -0,0 +1,59 @@
+/*
+# Registro de Contatos - Costureira Pro
+Guarda quando cada cliente recebeu uma mensagem de campanha
+
+## Query Description:
+Cria a tabela client_contacts. Cada envio pela tela de campanhas (reativação ou
+aniversário) gera um registro, para que a mesma cliente não receba mensagens
+repetidas em poucos dias. Ao mesclar clientes, os contatos vão para a cliente mantida
+(merge_clients segue a chave estrangeira). Não altera dados existentes.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: client_contacts (cliente, tipo de campanha, data do contato)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes (novas políticas para client_contacts)
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: user_id, client_id
+- Triggers: Nenhum
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de contatos de campanha
+CREATE TABLE IF NOT EXISTS client_contacts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('reactivation', 'birthday')),
+    contacted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_client_contacts_user_id ON client_contacts(user_id);
+CREATE INDEX IF NOT EXISTS idx_client_contacts_client_id ON client_contacts(client_id);
+
+-- Habilitar RLS
+ALTER TABLE client_contacts ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para client_contacts
+CREATE POLICY "Users can view own client contacts" ON client_contacts
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own client contacts" ON client_contacts
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own client contacts" ON client_contacts
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own client contacts" ON client_contacts
+    FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,73 @@
+/*
+# Valor por Peça - Costureira Pro
+Preço combinado por tipo de peça para o contador (facção)
+
+## Query Description:
+Cria a tabela piece_rates com o valor pago por tipo de peça, geral ou específico de
+uma cliente (o valor da cliente tem prioridade). Cada lançamento do contador passa a
+guardar o tipo de peça e o valor por peça usado naquele momento, para que mudanças
+de preço não alterem lançamentos antigos. Lançamentos existentes ficam sem valor.
+Ao mesclar clientes, os valores da cliente mesclada passam para a mantida; quando as
+duas têm valor para o mesmo tipo de peça, fica o da mantida (índice único).
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: piece_rates (cliente opcional, tipo de peça, valor)
+- Novas colunas: piece_counter_history.piece_type, piece_counter_history.rate
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes (novas políticas para piece_rates)
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: user_id, tipo de peça único por cliente
+- Triggers: updated_at
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de valores por peça
+CREATE TABLE IF NOT EXISTS piece_rates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+    piece_type TEXT NOT NULL,
+    rate DECIMAL(10,2) NOT NULL CHECK (rate >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices (client_id nulo = valor geral, válido para todas as clientes)
+CREATE INDEX IF NOT EXISTS idx_piece_rates_user_id ON piece_rates(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_piece_rates_unique_type
+    ON piece_rates(user_id, COALESCE(client_id, '00000000-0000-0000-0000-000000000000'::uuid), LOWER(piece_type));
+
+-- Habilitar RLS
+ALTER TABLE piece_rates ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para piece_rates
+CREATE POLICY "Users can view own piece rates" ON piece_rates
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own piece rates" ON piece_rates
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own piece rates" ON piece_rates
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own piece rates" ON piece_rates
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Trigger de updated_at
+CREATE TRIGGER update_piece_rates_updated_at BEFORE UPDATE ON piece_rates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Tipo de peça e valor usados em cada lançamento
+ALTER TABLE piece_counter_history
+    ADD COLUMN IF NOT EXISTS piece_type TEXT,
+    ADD COLUMN IF NOT EXISTS rate DECIMAL(10,2) CHECK (rate >= 0);
@@ -0,0 +1,144 @@
+/*
+# Lotes de Produção - Costureira Pro
+Lotes recebidos da confecção dentro de cada contador de peças (facção)
+
+## Query Description:
+Cria a tabela piece_lots. Cada lote pertence a um contador, tem um código de referência
+(ex: "1234"), o tipo de peça e a grade de tamanhos (ex: {"P": 50, "M": 100, "G": 50}).
+O lote guarda a quantidade recebida, a entregue e a devolvida com defeito. Peças
+devolvidas com defeito voltam a ficar pendentes até serem refeitas e entregues de novo.
+Os lançamentos do contador podem apontar para o lote de origem. Ao mesclar duas clientes
+com contador, os lotes vão para o contador mantido (merge_clients segue a chave estrangeira).
+Novos lotes são criados por create_piece_lot, que busca ou cria a cliente e o contador
+na mesma transação do lote.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: piece_lots (contador, código, tipo de peça, grade, recebidas, entregues, defeitos, status)
+- Nova coluna: piece_counter_history.lot_id
+- Nova função: create_piece_lot (cliente, contador e lote numa só chamada)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes (novas políticas para piece_lots)
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: user_id, counter_id, lot_id
+- Triggers: updated_at
+- Estimated Impact: Mínimo
+*/
+
+-- Tabela de lotes
+CREATE TABLE IF NOT EXISTS piece_lots (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    counter_id UUID NOT NULL REFERENCES piece_counters(id) ON DELETE CASCADE,
+    code TEXT NOT NULL,
+    piece_type TEXT,
+    sizes JSONB NOT NULL DEFAULT '{}',
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    delivered INTEGER NOT NULL DEFAULT 0 CHECK (delivered >= 0 AND delivered <= quantity),
+    defects INTEGER NOT NULL DEFAULT 0 CHECK (defects >= 0),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_piece_lots_user_id ON piece_lots(user_id);
+CREATE INDEX IF NOT EXISTS idx_piece_lots_counter_id ON piece_lots(counter_id);
+
+-- Habilitar RLS
+ALTER TABLE piece_lots ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para piece_lots
+CREATE POLICY "Users can view own piece lots" ON piece_lots
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own piece lots" ON piece_lots
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own piece lots" ON piece_lots
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own piece lots" ON piece_lots
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Trigger de updated_at
+CREATE TRIGGER update_piece_lots_updated_at BEFORE UPDATE ON piece_lots
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Criar lote: cliente, contador e lote numa transação
+CREATE OR REPLACE FUNCTION create_piece_lot(
+    p_client_name TEXT,
+    p_code TEXT,
+    p_quantity INTEGER,
+    p_piece_type TEXT DEFAULT NULL,
+    p_sizes JSONB DEFAULT '{}',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_client_name TEXT := TRIM(p_client_name);
+    v_client clients%ROWTYPE;
+    v_counter piece_counters%ROWTYPE;
+    v_lot piece_lots%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    IF v_client_name IS NULL OR v_client_name = '' THEN
+        RAISE EXCEPTION 'Client name is required';
+    END IF;
+
+    IF TRIM(p_code) IS NULL OR TRIM(p_code) = '' THEN
+        RAISE EXCEPTION 'Lot code is required';
+    END IF;
+
+    SELECT * INTO v_client
+    FROM clients
+    WHERE user_id = v_user_id AND LOWER(name) = LOWER(v_client_name)
+    LIMIT 1;
+
+    IF v_client.id IS NULL THEN
+        INSERT INTO clients (user_id, name)
+        VALUES (v_user_id, v_client_name)
+        RETURNING * INTO v_client;
+    END IF;
+
+    SELECT * INTO v_counter
+    FROM piece_counters
+    WHERE user_id = v_user_id AND client_id = v_client.id;
+
+    IF v_counter.id IS NULL THEN
+        INSERT INTO piece_counters (user_id, client_id, client_name, total_pieces)
+        VALUES (v_user_id, v_client.id, v_client.name, 0)
+        RETURNING * INTO v_counter;
+    END IF;
+
+    -- A quantidade é validada pelo CHECK da tabela
+    INSERT INTO piece_lots (user_id, counter_id, code, piece_type, sizes, quantity, notes)
+    VALUES (
+        v_user_id, v_counter.id, TRIM(p_code), NULLIF(TRIM(p_piece_type), ''),
+        COALESCE(p_sizes, '{}'), p_quantity, NULLIF(TRIM(p_notes), '')
+    )
+    RETURNING * INTO v_lot;
+
+    RETURN to_jsonb(v_lot);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lote de origem de cada lançamento
+ALTER TABLE piece_counter_history
+    ADD COLUMN IF NOT EXISTS lot_id UUID REFERENCES piece_lots(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_piece_counter_history_lot_id ON piece_counter_history(lot_id);
@@ -0,0 +1,181 @@
+/*
+# Edição de Lançamentos do Contador - Costureira Pro
+Permite corrigir e excluir lançamentos do contador de peças mantendo os totais e um histórico de alterações
+
+## Query Description:
+Libera UPDATE e DELETE em piece_counter_history para a própria usuária. O gatilho do total
+passa a tratar edição (soma a diferença) e exclusão (desconta o valor lançado), e também
+acerta as quantidades entregues e com defeito do lote quando o lançamento pertence a um.
+Uma edição ou exclusão que deixaria o total do contador negativo é recusada, e o contador e
+o lote de um lançamento não podem ser trocados pelo app.
+Toda edição ou exclusão grava os valores anteriores em piece_counter_history_audit, que
+só pode ser lida (é preenchida pelo gatilho).
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Medium"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova tabela: piece_counter_history_audit (lançamento, ação, valores antigos e novos)
+- Novas políticas: UPDATE e DELETE em piece_counter_history
+- Função atualizada: update_piece_counter_total (INSERT, UPDATE e DELETE)
+- Nova função: audit_piece_counter_history
+- Nova função: guard_piece_counter_history_links (contador e lote não mudam pela API)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: user_id, history_id
+- Triggers: total do contador, lote e auditoria em UPDATE/DELETE
+- Estimated Impact: Mínimo
+*/
+
+-- Histórico de alterações dos lançamentos
+CREATE TABLE IF NOT EXISTS piece_counter_history_audit (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    history_id UUID NOT NULL, -- Sem FK: o registro continua depois que o lançamento é excluído
+    counter_id UUID,
+    action TEXT NOT NULL CHECK (action IN ('update', 'delete')),
+    old_values JSONB NOT NULL,
+    new_values JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_piece_counter_history_audit_user_id ON piece_counter_history_audit(user_id);
+CREATE INDEX IF NOT EXISTS idx_piece_counter_history_audit_history_id ON piece_counter_history_audit(history_id);
+
+ALTER TABLE piece_counter_history_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own piece counter history audit" ON piece_counter_history_audit
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Edição e exclusão de lançamentos
+CREATE POLICY "Users can update their own piece counter history" ON piece_counter_history
+    FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Pelo app só se corrige quantidade, descrição, tipo e valor. Mover o lançamento para outro
+-- contador ou lote não passaria pelo gatilho do total; merge_clients (SECURITY DEFINER) e a
+-- exclusão de um lote (ON DELETE SET NULL) continuam podendo
+CREATE OR REPLACE FUNCTION guard_piece_counter_history_links()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF pg_trigger_depth() = 1
+        AND current_user IN ('anon', 'authenticated')
+        AND (NEW.counter_id IS DISTINCT FROM OLD.counter_id OR NEW.lot_id IS DISTINCT FROM OLD.lot_id)
+    THEN
+        RAISE EXCEPTION 'Counter and lot of an entry cannot be changed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_piece_counter_history_links_trigger
+    BEFORE UPDATE OF counter_id, lot_id ON piece_counter_history
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_piece_counter_history_links();
+
+CREATE POLICY "Users can delete their own piece counter history" ON piece_counter_history
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Total do contador e quantidades do lote acompanham inserção, edição e exclusão
+CREATE OR REPLACE FUNCTION update_piece_counter_total()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_old_pieces INTEGER := 0;
+    v_new_pieces INTEGER := 0;
+    v_counter_id UUID;
+    v_lot_id UUID;
+    v_total INTEGER;
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        v_old_pieces := OLD.pieces_added;
+        v_counter_id := OLD.counter_id;
+        v_lot_id := OLD.lot_id;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        v_new_pieces := NEW.pieces_added;
+        v_counter_id := NEW.counter_id;
+    END IF;
+
+    UPDATE piece_counters
+    SET
+        total_pieces = total_pieces + v_new_pieces - v_old_pieces,
+        updated_at = NOW()
+    WHERE id = v_counter_id AND user_id = COALESCE(NEW.user_id, OLD.user_id)
+    RETURNING total_pieces INTO v_total;
+
+    -- Editar ou excluir um lançamento não pode deixar o contador negativo
+    IF TG_OP IN ('UPDATE', 'DELETE') AND v_total < 0 THEN
+        RAISE EXCEPTION 'Counter total cannot be negative' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Na inserção o app já atualiza o lote; entradas negativas do lote são defeitos devolvidos
+    IF v_lot_id IS NOT NULL THEN
+        UPDATE piece_lots
+        SET
+            delivered = delivered + v_new_pieces - v_old_pieces,
+            defects = defects + GREATEST(-v_new_pieces, 0) - GREATEST(-v_old_pieces, 0),
+            status = CASE
+                WHEN delivered + v_new_pieces - v_old_pieces >= quantity THEN 'closed'
+                ELSE 'open'
+            END
+        WHERE id = v_lot_id AND user_id = COALESCE(NEW.user_id, OLD.user_id);
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Só a quantidade mexe no total; mover lançamentos entre contadores (merge_clients) não
+CREATE TRIGGER update_piece_counter_total_on_update_trigger
+    AFTER UPDATE OF pieces_added ON piece_counter_history
+    FOR EACH ROW
+    WHEN (OLD.pieces_added IS DISTINCT FROM NEW.pieces_added)
+    EXECUTE FUNCTION update_piece_counter_total();
+
+CREATE TRIGGER update_piece_counter_total_on_delete_trigger
+    AFTER DELETE ON piece_counter_history
+    FOR EACH ROW
+    EXECUTE FUNCTION update_piece_counter_total();
+
+-- Guardar os valores originais de cada edição ou exclusão
+CREATE OR REPLACE FUNCTION audit_piece_counter_history()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Exclusões em cascata (contador ou conta removidos) não geram registro
+    IF pg_trigger_depth() > 1 THEN
+        RETURN OLD;
+    END IF;
+
+    INSERT INTO piece_counter_history_audit (user_id, history_id, counter_id, action, old_values, new_values)
+    VALUES (
+        OLD.user_id,
+        OLD.id,
+        OLD.counter_id,
+        LOWER(TG_OP),
+        to_jsonb(OLD),
+        CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(NEW) ELSE NULL END
+    );
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER audit_piece_counter_history_trigger
+    AFTER UPDATE OF pieces_added, description, piece_type, rate OR DELETE ON piece_counter_history
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_piece_counter_history();
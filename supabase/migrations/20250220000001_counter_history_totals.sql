@@ -0,0 +1,70 @@
+/*
+# Totais do Histórico do Contador - Costureira Pro
+Soma dos lançamentos do contador por cliente para um período, calculada no banco
+
+## Query Description:
+Cria a função get_piece_counter_totals, usada pelo histórico paginado do contador. Ela
+soma peças adicionadas, peças removidas e o valor a receber (peças x valor por peça) de
+cada contador, com filtros opcionais de período, contador e tipo de movimento. Assim os
+totais do período não dependem de carregar todos os lançamentos no aplicativo.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova função: get_piece_counter_totals(p_from, p_to, p_counter_id, p_direction)
+- Novo índice: piece_counter_history(counter_id, created_at)
+
+## Security Implications:
+- RLS Status: Enabled (a função roda com as permissões da usuária)
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado
+
+## Performance Impact:
+- Indexes: counter_id + created_at
+- Triggers: Nenhum
+- Estimated Impact: Mínimo
+*/
+
+CREATE INDEX IF NOT EXISTS idx_piece_counter_history_counter_created
+    ON piece_counter_history(counter_id, created_at DESC);
+
+-- p_to é exclusivo; p_direction: 'add', 'remove' ou NULL para todos
+CREATE OR REPLACE FUNCTION get_piece_counter_totals(
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_counter_id UUID DEFAULT NULL,
+    p_direction TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    counter_id UUID,
+    client_name TEXT,
+    pieces_added BIGINT,
+    pieces_removed BIGINT,
+    amount NUMERIC,
+    entries BIGINT
+) AS $$
+    SELECT
+        h.counter_id,
+        c.client_name,
+        COALESCE(SUM(h.pieces_added) FILTER (WHERE h.pieces_added > 0), 0) AS pieces_added,
+        COALESCE(-SUM(h.pieces_added) FILTER (WHERE h.pieces_added < 0), 0) AS pieces_removed,
+        COALESCE(SUM(h.pieces_added * COALESCE(h.rate, 0)), 0) AS amount,
+        COUNT(*) AS entries
+    FROM piece_counter_history h
+    JOIN piece_counters c ON c.id = h.counter_id
+    WHERE h.user_id = auth.uid()
+        AND (p_from IS NULL OR h.created_at >= p_from)
+        AND (p_to IS NULL OR h.created_at < p_to)
+        AND (p_counter_id IS NULL OR h.counter_id = p_counter_id)
+        AND (
+            p_direction IS NULL
+            OR (p_direction = 'add' AND h.pieces_added > 0)
+            OR (p_direction = 'remove' AND h.pieces_added < 0)
+        )
+    GROUP BY h.counter_id, c.client_name
+    ORDER BY c.client_name;
+$$ LANGUAGE sql STABLE;
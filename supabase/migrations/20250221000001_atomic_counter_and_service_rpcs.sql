@@ -0,0 +1,286 @@
+/*
+# Lançamentos e Serviços em Uma Chamada - Costureira Pro
+Funções transacionais para lançar peças no contador e criar serviços
+
+## Query Description:
+Cria add_pieces_to_counter e create_service. Cada uma faz, numa única transação, o que o
+aplicativo fazia em várias chamadas (buscar ou criar a cliente, o contador, o lançamento,
+itens e materiais do serviço). Se algo falhar no meio, nada fica gravado, evitando
+clientes e contadores órfãos em conexões instáveis. As funções validam os dados no
+servidor (por exemplo, uma retirada não pode deixar o contador negativo) e devolvem o
+contador ou serviço e a cliente atualizados. O gatilho do total do contador passa a
+atualizar o lote também na inserção, para que a entrega de um lote seja uma só chamada.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Novas funções: add_pieces_to_counter, create_service
+- Função atualizada: update_piece_counter_total (lote na inserção)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado (as funções usam auth.uid(), não recebem o usuário)
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Nenhum novo
+- Estimated Impact: Menos chamadas por lançamento e por serviço
+*/
+
+-- O lote acompanha inserção, edição e exclusão dos seus lançamentos
+CREATE OR REPLACE FUNCTION update_piece_counter_total()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_old_pieces INTEGER := 0;
+    v_new_pieces INTEGER := 0;
+    v_counter_id UUID;
+    v_lot_id UUID;
+    v_total INTEGER;
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        v_old_pieces := OLD.pieces_added;
+        v_counter_id := OLD.counter_id;
+        v_lot_id := OLD.lot_id;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        v_new_pieces := NEW.pieces_added;
+        v_counter_id := NEW.counter_id;
+        v_lot_id := NEW.lot_id;
+    END IF;
+
+    UPDATE piece_counters
+    SET
+        total_pieces = total_pieces + v_new_pieces - v_old_pieces,
+        updated_at = NOW()
+    WHERE id = v_counter_id AND user_id = COALESCE(NEW.user_id, OLD.user_id)
+    RETURNING total_pieces INTO v_total;
+
+    -- Editar ou excluir um lançamento não pode deixar o contador negativo
+    IF TG_OP IN ('UPDATE', 'DELETE') AND v_total < 0 THEN
+        RAISE EXCEPTION 'Counter total cannot be negative' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Entradas negativas do lote são defeitos devolvidos
+    IF v_lot_id IS NOT NULL THEN
+        UPDATE piece_lots
+        SET
+            delivered = delivered + v_new_pieces - v_old_pieces,
+            defects = defects + GREATEST(-v_new_pieces, 0) - GREATEST(-v_old_pieces, 0),
+            status = CASE
+                WHEN delivered + v_new_pieces - v_old_pieces >= quantity THEN 'closed'
+                ELSE 'open'
+            END
+        WHERE id = v_lot_id AND user_id = COALESCE(NEW.user_id, OLD.user_id);
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lançar peças: cliente, contador, lançamento e tempo do cronômetro numa transação
+CREATE OR REPLACE FUNCTION add_pieces_to_counter(
+    p_client_name TEXT,
+    p_pieces_added INTEGER,
+    p_description TEXT DEFAULT NULL,
+    p_minutes_worked INTEGER DEFAULT NULL,
+    p_piece_type TEXT DEFAULT NULL,
+    p_rate NUMERIC DEFAULT NULL,
+    p_lot_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_client_name TEXT := TRIM(p_client_name);
+    v_client clients%ROWTYPE;
+    v_counter piece_counters%ROWTYPE;
+    v_entry piece_counter_history%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    IF v_client_name IS NULL OR v_client_name = '' THEN
+        RAISE EXCEPTION 'Client name is required';
+    END IF;
+
+    IF p_pieces_added IS NULL OR p_pieces_added = 0 THEN
+        RAISE EXCEPTION 'Pieces must be different from zero';
+    END IF;
+
+    IF p_rate < 0 OR p_minutes_worked < 0 THEN
+        RAISE EXCEPTION 'Rate and minutes cannot be negative';
+    END IF;
+
+    SELECT * INTO v_client
+    FROM clients
+    WHERE user_id = v_user_id AND LOWER(name) = LOWER(v_client_name)
+    LIMIT 1;
+
+    IF v_client.id IS NULL THEN
+        INSERT INTO clients (user_id, name)
+        VALUES (v_user_id, v_client_name)
+        RETURNING * INTO v_client;
+    END IF;
+
+    -- Trava o contador para que retiradas simultâneas não passem do total
+    SELECT * INTO v_counter
+    FROM piece_counters
+    WHERE user_id = v_user_id AND client_id = v_client.id
+    FOR UPDATE;
+
+    IF v_counter.id IS NULL THEN
+        INSERT INTO piece_counters (user_id, client_id, client_name, total_pieces)
+        VALUES (v_user_id, v_client.id, v_client.name, 0)
+        RETURNING * INTO v_counter;
+    END IF;
+
+    IF v_counter.total_pieces + p_pieces_added < 0 THEN
+        RAISE EXCEPTION 'Removal exceeds counter total of % pieces', v_counter.total_pieces;
+    END IF;
+
+    IF p_lot_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM piece_lots WHERE id = p_lot_id AND counter_id = v_counter.id
+    ) THEN
+        RAISE EXCEPTION 'Lot not found for this client';
+    END IF;
+
+    INSERT INTO piece_counter_history (
+        user_id, counter_id, client_name, pieces_added, description,
+        minutes_worked, piece_type, rate, lot_id
+    )
+    VALUES (
+        v_user_id, v_counter.id, v_client.name, p_pieces_added, p_description,
+        NULLIF(p_minutes_worked, 0), NULLIF(TRIM(p_piece_type), ''), p_rate, p_lot_id
+    )
+    RETURNING * INTO v_entry;
+
+    -- As sessões do cronômetro do contador passam a pertencer a este lançamento;
+    -- um cronômetro de serviço que esteja rodando não é afetado
+    IF p_minutes_worked > 0 THEN
+        UPDATE work_sessions
+        SET ended_at = NOW()
+        WHERE user_id = v_user_id AND service_id IS NULL AND ended_at IS NULL;
+
+        UPDATE work_sessions
+        SET counter_history_id = v_entry.id
+        WHERE user_id = v_user_id AND service_id IS NULL AND counter_history_id IS NULL;
+    END IF;
+
+    -- Total atualizado pelo gatilho
+    SELECT * INTO v_counter FROM piece_counters WHERE id = v_counter.id;
+
+    RETURN jsonb_build_object(
+        'entry', to_jsonb(v_entry),
+        'counter', to_jsonb(v_counter),
+        'client', to_jsonb(v_client)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Criar serviço com itens e materiais numa transação
+-- p_items: [{"description", "quantity", "unit_price"}]; p_materials: [{"material_id", "quantity", "unit_cost"}]
+CREATE OR REPLACE FUNCTION create_service(
+    p_client_name TEXT,
+    p_description TEXT,
+    p_value NUMERIC,
+    p_status TEXT DEFAULT 'progress',
+    p_delivery_date DATE DEFAULT NULL,
+    p_items JSONB DEFAULT '[]',
+    p_materials JSONB DEFAULT '[]'
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_client_name TEXT := TRIM(p_client_name);
+    v_client clients%ROWTYPE;
+    v_service services%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    IF v_client_name IS NULL OR v_client_name = '' THEN
+        RAISE EXCEPTION 'Client name is required';
+    END IF;
+
+    IF p_value IS NULL OR p_value < 0 THEN
+        RAISE EXCEPTION 'Service value cannot be negative';
+    END IF;
+
+    IF p_status NOT IN ('progress', 'delivered', 'paid') THEN
+        RAISE EXCEPTION 'Invalid service status: %', p_status;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_items) item
+        WHERE TRIM(COALESCE(item->>'description', '')) = ''
+            OR (item->>'quantity')::NUMERIC <= 0
+            OR (item->>'unit_price')::NUMERIC < 0
+    ) THEN
+        RAISE EXCEPTION 'Invalid service item';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_materials) material
+        WHERE (material->>'quantity')::NUMERIC <= 0
+            OR NOT EXISTS (
+                SELECT 1 FROM materials
+                WHERE id = (material->>'material_id')::UUID AND user_id = v_user_id
+            )
+    ) THEN
+        RAISE EXCEPTION 'Invalid service material';
+    END IF;
+
+    SELECT * INTO v_client
+    FROM clients
+    WHERE user_id = v_user_id AND LOWER(name) = LOWER(v_client_name)
+    LIMIT 1;
+
+    IF v_client.id IS NULL THEN
+        INSERT INTO clients (user_id, name)
+        VALUES (v_user_id, v_client_name)
+        RETURNING * INTO v_client;
+    END IF;
+
+    INSERT INTO services (user_id, client_id, client_name, description, value, delivery_date, status)
+    VALUES (v_user_id, v_client.id, v_client_name, p_description, p_value, p_delivery_date, p_status)
+    RETURNING * INTO v_service;
+
+    INSERT INTO service_items (user_id, service_id, description, quantity, unit_price, position)
+    SELECT
+        v_user_id,
+        v_service.id,
+        TRIM(item.value->>'description'),
+        (item.value->>'quantity')::INTEGER,
+        (item.value->>'unit_price')::NUMERIC,
+        item.ordinality - 1
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item;
+
+    INSERT INTO service_materials (user_id, service_id, material_id, quantity, unit_cost)
+    SELECT
+        v_user_id,
+        v_service.id,
+        (material->>'material_id')::UUID,
+        (material->>'quantity')::NUMERIC,
+        COALESCE((material->>'unit_cost')::NUMERIC, 0)
+    FROM jsonb_array_elements(p_materials) material;
+
+    -- Custo de material e estatísticas da cliente atualizados pelos gatilhos
+    SELECT * INTO v_service FROM services WHERE id = v_service.id;
+    SELECT * INTO v_client FROM clients WHERE id = v_client.id;
+
+    RETURN jsonb_build_object(
+        'service', to_jsonb(v_service),
+        'client', to_jsonb(v_client)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,150 @@
+/*
+# Edição de Serviço em Uma Chamada - Costureira Pro
+Função transacional para salvar a edição de um serviço com itens e materiais
+
+## Query Description:
+Cria update_service, par de create_service. A edição de um serviço (cliente, dados,
+itens e materiais) era feita em várias chamadas, e a troca de itens e materiais era um
+DELETE seguido de um INSERT separado: se o INSERT falhasse, o serviço perdia os itens e o
+estoque já tinha sido devolvido. Agora tudo acontece numa transação. Itens ou materiais
+NULL não são alterados; uma lista vazia remove todos.
+
+## Metadata:
+- Schema-Category: "Safe"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Nova função: update_service
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: No
+- Auth Requirements: Usuário autenticado (a função usa auth.uid() e confere o dono do serviço)
+
+## Performance Impact:
+- Indexes: Nenhum
+- Triggers: Nenhum novo
+- Estimated Impact: Menos chamadas por edição
+*/
+
+CREATE OR REPLACE FUNCTION update_service(
+    p_service_id UUID,
+    p_client_name TEXT,
+    p_description TEXT,
+    p_value NUMERIC,
+    p_status TEXT,
+    p_delivery_date DATE DEFAULT NULL,
+    p_items JSONB DEFAULT NULL,
+    p_materials JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_client_name TEXT := TRIM(p_client_name);
+    v_client clients%ROWTYPE;
+    v_service services%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    SELECT * INTO v_service FROM services WHERE id = p_service_id AND user_id = v_user_id FOR UPDATE;
+
+    IF v_service.id IS NULL THEN
+        RAISE EXCEPTION 'Service not found';
+    END IF;
+
+    IF v_client_name IS NULL OR v_client_name = '' THEN
+        RAISE EXCEPTION 'Client name is required';
+    END IF;
+
+    IF p_value IS NULL OR p_value < 0 THEN
+        RAISE EXCEPTION 'Service value cannot be negative';
+    END IF;
+
+    IF p_status NOT IN ('progress', 'delivered', 'paid') THEN
+        RAISE EXCEPTION 'Invalid service status: %', p_status;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(p_items, '[]')) item
+        WHERE TRIM(COALESCE(item->>'description', '')) = ''
+            OR (item->>'quantity')::NUMERIC <= 0
+            OR (item->>'unit_price')::NUMERIC < 0
+    ) THEN
+        RAISE EXCEPTION 'Invalid service item';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(p_materials, '[]')) material
+        WHERE (material->>'quantity')::NUMERIC <= 0
+            OR NOT EXISTS (
+                SELECT 1 FROM materials
+                WHERE id = (material->>'material_id')::UUID AND user_id = v_user_id
+            )
+    ) THEN
+        RAISE EXCEPTION 'Invalid service material';
+    END IF;
+
+    -- A cliente é resolvida de novo caso o nome tenha mudado
+    SELECT * INTO v_client
+    FROM clients
+    WHERE user_id = v_user_id AND LOWER(name) = LOWER(v_client_name)
+    LIMIT 1;
+
+    IF v_client.id IS NULL THEN
+        INSERT INTO clients (user_id, name)
+        VALUES (v_user_id, v_client_name)
+        RETURNING * INTO v_client;
+    END IF;
+
+    UPDATE services
+    SET
+        client_id = v_client.id,
+        client_name = v_client_name,
+        description = p_description,
+        value = p_value,
+        delivery_date = p_delivery_date,
+        status = p_status
+    WHERE id = p_service_id;
+
+    -- Com itens, o gatilho troca o valor pela soma deles
+    IF p_items IS NOT NULL THEN
+        DELETE FROM service_items WHERE service_id = p_service_id;
+
+        INSERT INTO service_items (user_id, service_id, description, quantity, unit_price, position)
+        SELECT
+            v_user_id,
+            p_service_id,
+            TRIM(item.value->>'description'),
+            (item.value->>'quantity')::INTEGER,
+            (item.value->>'unit_price')::NUMERIC,
+            item.ordinality - 1
+        FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item;
+    END IF;
+
+    -- O gatilho devolve as quantidades antigas ao estoque antes de baixar as novas
+    IF p_materials IS NOT NULL THEN
+        DELETE FROM service_materials WHERE service_id = p_service_id;
+
+        INSERT INTO service_materials (user_id, service_id, material_id, quantity, unit_cost)
+        SELECT
+            v_user_id,
+            p_service_id,
+            (material->>'material_id')::UUID,
+            (material->>'quantity')::NUMERIC,
+            COALESCE((material->>'unit_cost')::NUMERIC, 0)
+        FROM jsonb_array_elements(p_materials) material;
+    END IF;
+
+    SELECT * INTO v_service FROM services WHERE id = p_service_id;
+    SELECT * INTO v_client FROM clients WHERE id = v_client.id;
+
+    RETURN jsonb_build_object(
+        'service', to_jsonb(v_service),
+        'client', to_jsonb(v_client)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;